@@ -0,0 +1,91 @@
+import {
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  EmbedBuilder,
+  PermissionFlagsBits,
+} from "discord.js";
+import { getBackupConfig, listBackups } from "../../database/backupFiles";
+import { createBackup } from "../../services/backups";
+import { requireBotOwner } from "../../services/commandMiddleware";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+const data = new SlashCommandBuilder()
+  .setName("backup")
+  .setDescription("Back up the bot's database (bot owner only)")
+  .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+  .addSubcommand((subcommand) =>
+    subcommand.setName("now").setDescription("Take and verify a backup immediately")
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName("list").setDescription("Show the stored backups")
+  );
+
+async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  try {
+    switch (interaction.options.getSubcommand()) {
+      case "now":
+        return await backupNow(interaction);
+      case "list":
+        return await showBackups(interaction);
+    }
+  } catch (error) {
+    console.error("Error executing backup command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+async function backupNow(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.deferReply({ ephemeral: true });
+
+  try {
+    const backup = await createBackup();
+    await interaction.editReply({
+      content: `Backup \`${backup.file}\` written (${formatSize(backup.size)}) and passed its integrity check.`,
+    });
+  } catch (error) {
+    console.error("Manual backup failed:", error);
+    await sendErrorResponse(interaction, `Backup failed: ${(error as Error).message}`);
+  }
+}
+
+async function showBackups(interaction: ChatInputCommandInteraction): Promise<void> {
+  const config = getBackupConfig();
+  const backups = listBackups(config);
+
+  const embed = new EmbedBuilder()
+    .setTitle("Database Backups")
+    .setColor(0x0099ff)
+    .setTimestamp()
+    .setFooter({
+      text: `Keeping ${config.keepCount} backup(s)${
+        config.maxAgeMs > 0 ? ` for up to ${config.maxAgeMs / 86400000} days` : ""
+      } • ${config.intervalMs > 0 ? `every ${config.intervalMs / 3600000}h` : "schedule disabled"}`,
+    });
+
+  if (backups.length === 0) {
+    embed.setDescription("No backups yet.");
+  } else {
+    embed.setDescription(
+      backups
+        .slice(0, 20)
+        .map(
+          (backup) =>
+            `\`${backup.file}\` — ${formatSize(backup.size)} — <t:${Math.floor(
+              backup.createdAt.getTime() / 1000
+            )}:R>`
+        )
+        .join("\n")
+    );
+  }
+
+  await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default { data, execute, before: [requireBotOwner] } satisfies Command;
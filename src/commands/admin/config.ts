@@ -0,0 +1,297 @@
+import {
+  ChannelType,
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  EmbedBuilder,
+  PermissionFlagsBits,
+} from "discord.js";
+import database, { GuildSettings, GuildSettingsUpdate } from "../../database/database";
+import { DEFAULT_APPEAL_TEXT } from "../../utils/moderation";
+import { DEFAULT_POINT_DECAY_DAYS } from "../../utils/points";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+const settingChoices = [
+  { name: "Moderator roles", value: "mod-roles" },
+  { name: "Log channel", value: "log-channel" },
+  { name: "Muted role", value: "muted-role" },
+  { name: "Appeal text", value: "appeal-text" },
+  { name: "DM users", value: "dm-users" },
+  { name: "Point decay days", value: "point-decay-days" },
+  { name: "Archive evidence", value: "archive-evidence" },
+  { name: "Appeal channel", value: "appeal-channel" },
+  { name: "DM fallback channel", value: "dm-fallback-channel" },
+  { name: "Cooldown bypass roles", value: "cooldown-bypass-roles" },
+];
+
+const settingDefaults: Record<string, GuildSettingsUpdate> = {
+  "mod-roles": { modRoleIds: [] },
+  "log-channel": { logChannelId: undefined },
+  "muted-role": { mutedRoleId: undefined },
+  "appeal-text": { appealText: undefined },
+  "dm-users": { dmUsers: true },
+  "point-decay-days": { pointDecayDays: undefined },
+  "archive-evidence": { archiveEvidence: false },
+  "appeal-channel": { appealChannelId: undefined },
+  "dm-fallback-channel": { dmFallbackChannelId: undefined },
+  "cooldown-bypass-roles": { cooldownBypassRoleIds: [] },
+};
+
+const data = new SlashCommandBuilder()
+  .setName("config")
+  .setDescription("View or change this server's bot settings")
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .addSubcommand((subcommand) =>
+    subcommand.setName("view").setDescription("Show the current settings")
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("set")
+      .setDescription("Change one or more settings")
+      .addRoleOption((option) =>
+        option.setName("mod-role-add").setDescription("Add a moderator role").setRequired(false)
+      )
+      .addRoleOption((option) =>
+        option
+          .setName("mod-role-remove")
+          .setDescription("Remove a moderator role")
+          .setRequired(false)
+      )
+      .addChannelOption((option) =>
+        option
+          .setName("log-channel")
+          .setDescription("Channel that receives moderation logs")
+          .setRequired(false)
+          .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+      )
+      .addRoleOption((option) =>
+        option
+          .setName("muted-role")
+          .setDescription("Role given by /mute")
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("appeal-text")
+          .setDescription("Appeal instructions included in punishment DMs")
+          .setRequired(false)
+          .setMaxLength(1000)
+      )
+      .addBooleanOption((option) =>
+        option
+          .setName("dm-users")
+          .setDescription("Whether punished users are notified by DM")
+          .setRequired(false)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName("point-decay-days")
+          .setDescription("Days after which infraction points stop counting")
+          .setRequired(false)
+          .setMinValue(1)
+          .setMaxValue(3650)
+      )
+      .addChannelOption((option) =>
+        option
+          .setName("appeal-channel")
+          .setDescription("Channel where staff review appeals (defaults to the log channel)")
+          .setRequired(false)
+          .addChannelTypes(ChannelType.GuildText)
+      )
+      .addBooleanOption((option) =>
+        option
+          .setName("archive-evidence")
+          .setDescription("Keep local copies of evidence attachments")
+          .setRequired(false)
+      )
+      .addChannelOption((option) =>
+        option
+          .setName("dm-fallback-channel")
+          .setDescription("Channel where users are mentioned when a punishment DM can't reach them")
+          .setRequired(false)
+          .addChannelTypes(ChannelType.GuildText)
+      )
+      .addRoleOption((option) =>
+        option
+          .setName("cooldown-bypass-role-add")
+          .setDescription("Add a role whose members skip command cooldowns")
+          .setRequired(false)
+      )
+      .addRoleOption((option) =>
+        option
+          .setName("cooldown-bypass-role-remove")
+          .setDescription("Remove a cooldown bypass role")
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("reset")
+      .setDescription("Reset one setting, or all of them, to the default")
+      .addStringOption((option) =>
+        option
+          .setName("setting")
+          .setDescription("The setting to reset (all settings if empty)")
+          .setRequired(false)
+          .addChoices(...settingChoices)
+      )
+  );
+
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+  try {
+    switch (interaction.options.getSubcommand()) {
+      case "view":
+        return await viewSettings(interaction);
+      case "set":
+        return await setSettings(interaction);
+      case "reset":
+        return await resetSettings(interaction);
+    }
+  } catch (error) {
+    console.error("Error executing config command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+async function viewSettings(interaction: ChatInputCommandInteraction): Promise<void> {
+  const settings = database.getGuildSettings(interaction.guildId!);
+  await interaction.reply({ embeds: [createSettingsEmbed(settings)], ephemeral: true });
+}
+
+async function setSettings(interaction: ChatInputCommandInteraction): Promise<void> {
+  const settings = database.getGuildSettings(interaction.guildId!);
+  const changes: GuildSettingsUpdate = {};
+
+  const roleToAdd = interaction.options.getRole("mod-role-add");
+  const roleToRemove = interaction.options.getRole("mod-role-remove");
+  if (roleToAdd || roleToRemove) {
+    const modRoleIds = new Set(settings.modRoleIds);
+    if (roleToAdd) modRoleIds.add(roleToAdd.id);
+    if (roleToRemove) modRoleIds.delete(roleToRemove.id);
+    changes.modRoleIds = [...modRoleIds];
+  }
+
+  const logChannel = interaction.options.getChannel("log-channel");
+  if (logChannel) changes.logChannelId = logChannel.id;
+
+  const mutedRole = interaction.options.getRole("muted-role");
+  if (mutedRole) changes.mutedRoleId = mutedRole.id;
+
+  const appealText = interaction.options.getString("appeal-text");
+  if (appealText) changes.appealText = appealText;
+
+  const dmUsers = interaction.options.getBoolean("dm-users");
+  if (dmUsers !== null) changes.dmUsers = dmUsers;
+
+  const pointDecayDays = interaction.options.getInteger("point-decay-days");
+  if (pointDecayDays !== null) changes.pointDecayDays = pointDecayDays;
+
+  const appealChannel = interaction.options.getChannel("appeal-channel");
+  if (appealChannel) changes.appealChannelId = appealChannel.id;
+
+  const archiveEvidence = interaction.options.getBoolean("archive-evidence");
+  if (archiveEvidence !== null) changes.archiveEvidence = archiveEvidence;
+
+  const dmFallbackChannel = interaction.options.getChannel("dm-fallback-channel");
+  if (dmFallbackChannel) changes.dmFallbackChannelId = dmFallbackChannel.id;
+
+  const bypassRoleToAdd = interaction.options.getRole("cooldown-bypass-role-add");
+  const bypassRoleToRemove = interaction.options.getRole("cooldown-bypass-role-remove");
+  if (bypassRoleToAdd || bypassRoleToRemove) {
+    const bypassRoleIds = new Set(settings.cooldownBypassRoleIds);
+    if (bypassRoleToAdd) bypassRoleIds.add(bypassRoleToAdd.id);
+    if (bypassRoleToRemove) bypassRoleIds.delete(bypassRoleToRemove.id);
+    changes.cooldownBypassRoleIds = [...bypassRoleIds];
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return await sendErrorResponse(interaction, "Please provide at least one setting to change.");
+  }
+
+  const updated = database.updateGuildSettings(interaction.guildId!, changes);
+  await interaction.reply({
+    content: "Settings updated.",
+    embeds: [createSettingsEmbed(updated)],
+    ephemeral: true,
+  });
+}
+
+async function resetSettings(interaction: ChatInputCommandInteraction): Promise<void> {
+  const setting = interaction.options.getString("setting");
+
+  if (setting) {
+    database.updateGuildSettings(interaction.guildId!, settingDefaults[setting]);
+  } else {
+    database.resetGuildSettings(interaction.guildId!);
+  }
+
+  const settings = database.getGuildSettings(interaction.guildId!);
+  await interaction.reply({
+    content: setting ? `Reset \`${setting}\` to its default.` : "Reset all settings to their defaults.",
+    embeds: [createSettingsEmbed(settings)],
+    ephemeral: true,
+  });
+}
+
+function createSettingsEmbed(settings: GuildSettings): EmbedBuilder {
+  return new EmbedBuilder()
+    .setTitle("Server Settings")
+    .addFields(
+      {
+        name: "Moderator Roles",
+        value:
+          settings.modRoleIds.length > 0
+            ? settings.modRoleIds.map((id) => `<@&${id}>`).join(", ")
+            : "None (administrators only)",
+        inline: false,
+      },
+      {
+        name: "Log Channel",
+        value: settings.logChannelId ? `<#${settings.logChannelId}>` : "Not set",
+        inline: true,
+      },
+      {
+        name: "Appeal Channel",
+        value: settings.appealChannelId ? `<#${settings.appealChannelId}>` : "Log channel",
+        inline: true,
+      },
+      {
+        name: "Muted Role",
+        value: settings.mutedRoleId ? `<@&${settings.mutedRoleId}>` : "Not set",
+        inline: true,
+      },
+      { name: "DM Users", value: settings.dmUsers ? "Enabled" : "Disabled", inline: true },
+      {
+        name: "DM Fallback Channel",
+        value: settings.dmFallbackChannelId ? `<#${settings.dmFallbackChannelId}>` : "Not set",
+        inline: true,
+      },
+      {
+        name: "Point Decay",
+        value: `${settings.pointDecayDays ?? DEFAULT_POINT_DECAY_DAYS} days`,
+        inline: true,
+      },
+      {
+        name: "Archive Evidence",
+        value: settings.archiveEvidence ? "Enabled" : "Disabled",
+        inline: true,
+      },
+      {
+        name: "Cooldown Bypass Roles",
+        value:
+          settings.cooldownBypassRoleIds.length > 0
+            ? settings.cooldownBypassRoleIds.map((id) => `<@&${id}>`).join(", ")
+            : "None",
+        inline: false,
+      },
+      {
+        name: "Appeal Text",
+        value: settings.appealText ?? `${DEFAULT_APPEAL_TEXT} *(default)*`,
+        inline: false,
+      }
+    )
+    .setColor(0x0099ff)
+    .setTimestamp();
+}
+
+export default { data, execute, guildOnly: true } satisfies Command;
@@ -0,0 +1,159 @@
+import {
+  AttachmentBuilder,
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  EmbedBuilder,
+  PermissionFlagsBits,
+} from "discord.js";
+import {
+  buildExportFile,
+  ExportFormat,
+  importGuildData,
+  writeExportToDisk,
+} from "../../services/moderationData";
+import { ModLogEvent } from "../../database/database";
+import { sendModLog } from "../../services/modLog";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+// Discord's upload limit for bots without boosts
+const MAX_ATTACHMENT_BYTES = 8 * 1024 * 1024;
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+const data = new SlashCommandBuilder()
+  .setName("data")
+  .setDescription("Export or import this server's moderation records")
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("export")
+      .setDescription("Export all infractions and notes, with evidence and history")
+      .addStringOption((option) =>
+        option
+          .setName("format")
+          .setDescription("File format")
+          .setRequired(true)
+          .addChoices({ name: "JSON", value: "json" }, { name: "CSV", value: "csv" })
+      )
+      .addStringOption((option) =>
+        option
+          .setName("destination")
+          .setDescription("Where to put the export (default: attach it here)")
+          .setRequired(false)
+          .addChoices(
+            { name: "Attachment", value: "attachment" },
+            { name: "Bot's disk", value: "disk" }
+          )
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("import")
+      .setDescription("Import infractions from a JSON export of this or another bot")
+      .addAttachmentOption((option) =>
+        option.setName("file").setDescription("The JSON export").setRequired(true)
+      )
+  );
+
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+  try {
+    switch (interaction.options.getSubcommand()) {
+      case "export":
+        return await exportData(interaction);
+      case "import":
+        return await importData(interaction);
+    }
+  } catch (error) {
+    console.error("Error executing data command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+async function exportData(interaction: ChatInputCommandInteraction): Promise<void> {
+  const format = interaction.options.getString("format", true) as ExportFormat;
+  const destination = interaction.options.getString("destination") ?? "attachment";
+
+  await interaction.deferReply({ ephemeral: true });
+
+  const file = buildExportFile(interaction.guildId!, format);
+  if (destination === "disk" || file.content.length > MAX_ATTACHMENT_BYTES) {
+    const path = writeExportToDisk(interaction.guildId!, file);
+    await interaction.editReply({
+      content:
+        destination === "disk"
+          ? `Export written to \`${path}\` on the bot's host.`
+          : `The export is too large to upload, so it was written to \`${path}\` on the bot's host instead.`,
+    });
+    return;
+  }
+
+  await interaction.editReply({
+    content: `Moderation export for **${interaction.guild!.name}**.`,
+    files: [new AttachmentBuilder(file.content, { name: file.name })],
+  });
+}
+
+async function importData(interaction: ChatInputCommandInteraction): Promise<void> {
+  const attachment = interaction.options.getAttachment("file", true);
+  if (attachment.size > MAX_IMPORT_BYTES) {
+    return await sendErrorResponse(interaction, "Import files must be 10 MB or smaller.");
+  }
+
+  await interaction.deferReply({ ephemeral: true });
+
+  let payload: unknown;
+  try {
+    const response = await fetch(attachment.url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    payload = JSON.parse(await response.text());
+  } catch (error) {
+    console.error("Failed to read import file:", error);
+    return await sendErrorResponse(interaction, "The file could not be downloaded or isn't valid JSON.");
+  }
+
+  let result;
+  try {
+    result = importGuildData(interaction.guildId!, payload, interaction.user.id);
+  } catch (error) {
+    return await sendErrorResponse(interaction, (error as Error).message);
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle("Moderation Data Imported")
+    .addFields(
+      { name: "Imported", value: `${result.imported}`, inline: true },
+      { name: "Notes", value: `${result.notes}`, inline: true },
+      { name: "Duplicates", value: `${result.duplicates}`, inline: true },
+      { name: "Skipped", value: `${result.skipped.length}`, inline: true }
+    )
+    .setColor(0x00ff00)
+    .setTimestamp()
+    .setFooter({ text: attachment.name });
+
+  if (result.skipped.length > 0) {
+    embed.addFields({
+      name: "Skipped Records",
+      value: result.skipped
+        .slice(0, 10)
+        .map((item) => `${item.kind === "note" ? "Note" : "Infraction"} #${item.index + 1}: ${item.reason}`)
+        .join("\n")
+        .slice(0, 1024),
+    });
+  }
+
+  await interaction.editReply({ embeds: [embed] });
+
+  await sendModLog(interaction.guild!, {
+    event: ModLogEvent.DATA,
+    title: "Moderation Data Imported",
+    color: 0x00ff00,
+    moderator: interaction.user.tag,
+    fields: embed.data.fields,
+    footer: attachment.name,
+    summary: `📥 ${interaction.user.tag} imported ${result.imported} infraction(s) from ${attachment.name}`,
+  });
+}
+
+export default { data, execute, guildOnly: true } satisfies Command;
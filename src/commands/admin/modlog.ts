@@ -0,0 +1,151 @@
+import {
+  ChannelType,
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  EmbedBuilder,
+  PermissionFlagsBits,
+} from "discord.js";
+import database, { ModLogEvent } from "../../database/database";
+import { modLogEventLabels, WEBHOOK_URL_PATTERN } from "../../services/modLog";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+const eventChoices = Object.values(ModLogEvent).map((event) => ({
+  name: modLogEventLabels[event],
+  value: event,
+}));
+
+const data = new SlashCommandBuilder()
+  .setName("modlog")
+  .setDescription("Route moderation log events to different channels or webhooks")
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .addSubcommand((subcommand) =>
+    subcommand.setName("view").setDescription("Show where each event type is logged")
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("route")
+      .setDescription("Send one event type to a channel or webhook")
+      .addStringOption((option) =>
+        option
+          .setName("event")
+          .setDescription("The event type to route")
+          .setRequired(true)
+          .addChoices(...eventChoices)
+      )
+      .addChannelOption((option) =>
+        option
+          .setName("channel")
+          .setDescription("Channel that receives these events")
+          .setRequired(false)
+          .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("webhook")
+          .setDescription("Webhook URL that receives these events")
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("reset")
+      .setDescription("Send an event type back to the default log channel")
+      .addStringOption((option) =>
+        option
+          .setName("event")
+          .setDescription("The event type to reset")
+          .setRequired(true)
+          .addChoices(...eventChoices)
+      )
+  );
+
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+  try {
+    switch (interaction.options.getSubcommand()) {
+      case "view":
+        return await viewRoutes(interaction);
+      case "route":
+        return await setRoute(interaction);
+      case "reset":
+        return await resetRoute(interaction);
+    }
+  } catch (error) {
+    console.error("Error executing modlog command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+async function viewRoutes(interaction: ChatInputCommandInteraction): Promise<void> {
+  await interaction.reply({ embeds: [createRoutesEmbed(interaction.guildId!)], ephemeral: true });
+}
+
+async function setRoute(interaction: ChatInputCommandInteraction): Promise<void> {
+  const event = interaction.options.getString("event", true) as ModLogEvent;
+  const channel = interaction.options.getChannel("channel");
+  const webhookUrl = interaction.options.getString("webhook")?.trim();
+
+  if (!channel === !webhookUrl) {
+    return await sendErrorResponse(interaction, "Please provide either a channel or a webhook URL.");
+  }
+
+  if (webhookUrl && !WEBHOOK_URL_PATTERN.test(webhookUrl)) {
+    return await sendErrorResponse(
+      interaction,
+      "That doesn't look like a Discord webhook URL. Copy it from the channel's Integrations settings."
+    );
+  }
+
+  database.setModLogRoute(interaction.guildId!, event, {
+    channelId: channel?.id,
+    webhookUrl,
+  });
+
+  // Replies stay ephemeral because webhook URLs are secrets
+  await interaction.reply({
+    content: `${modLogEventLabels[event]} will now be logged to ${
+      channel ? `<#${channel.id}>` : "the webhook"
+    }.`,
+    embeds: [createRoutesEmbed(interaction.guildId!)],
+    ephemeral: true,
+  });
+}
+
+async function resetRoute(interaction: ChatInputCommandInteraction): Promise<void> {
+  const event = interaction.options.getString("event", true) as ModLogEvent;
+
+  if (!database.removeModLogRoute(interaction.guildId!, event)) {
+    return await sendErrorResponse(interaction, "That event type already uses the default log channel.");
+  }
+
+  await interaction.reply({
+    content: `${modLogEventLabels[event]} will now be logged to the default log channel.`,
+    embeds: [createRoutesEmbed(interaction.guildId!)],
+    ephemeral: true,
+  });
+}
+
+function createRoutesEmbed(guildId: string): EmbedBuilder {
+  const { logChannelId } = database.getGuildSettings(guildId);
+  const routes = database.getModLogRoutes(guildId);
+  const defaultTarget = logChannelId ? `<#${logChannelId}>` : "Console only (no log channel set)";
+
+  return new EmbedBuilder()
+    .setTitle("Moderation Log Routing")
+    .setDescription(`Default log channel: ${defaultTarget}\nChange it with \`/config set log-channel\`.`)
+    .addFields(
+      Object.values(ModLogEvent).map((event) => {
+        const route = routes.find((item) => item.event === event);
+        const target = route?.webhookUrl
+          ? `Webhook ${route.webhookUrl.split("/").slice(-2, -1)[0]}`
+          : route?.channelId
+            ? `<#${route.channelId}>`
+            : "Default";
+        return { name: modLogEventLabels[event], value: target, inline: false };
+      })
+    )
+    .setColor(0x0099ff)
+    .setTimestamp();
+}
+
+export default { data, execute, guildOnly: true } satisfies Command;
@@ -0,0 +1,196 @@
+import {
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  SlashCommandSubcommandBuilder,
+  EmbedBuilder,
+  PermissionFlagsBits,
+} from "discord.js";
+import database, { CommandPermission, PermissionTargetType } from "../../database/database";
+import { getCommandKeys } from "../../services/permissions";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+const permissionChoices = [
+  "ManageGuild",
+  "ManageRoles",
+  "ManageChannels",
+  "ManageMessages",
+  "ManageNicknames",
+  "ModerateMembers",
+  "KickMembers",
+  "BanMembers",
+  "ViewAuditLog",
+  "MentionEveryone",
+].map((flag) => ({ name: flag, value: flag }));
+
+function addTargetOptions(subcommand: SlashCommandSubcommandBuilder): SlashCommandSubcommandBuilder {
+  return subcommand
+    .addStringOption((option) =>
+      option
+        .setName("command")
+        .setDescription("Command or subcommand, e.g. `warn` or `infraction revoke`")
+        .setRequired(true)
+    )
+    .addRoleOption((option) =>
+      option.setName("role").setDescription("Role to grant or revoke").setRequired(false)
+    )
+    .addUserOption((option) =>
+      option.setName("user").setDescription("User to grant or revoke").setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("permission")
+        .setDescription("Discord permission that grants access")
+        .setRequired(false)
+        .addChoices(...permissionChoices)
+    );
+}
+
+const data = new SlashCommandBuilder()
+  .setName("permissions")
+  .setDescription("Control who can use each command")
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .addSubcommand((subcommand) =>
+    addTargetOptions(
+      subcommand.setName("grant").setDescription("Allow a role, user or permission to use a command")
+    )
+  )
+  .addSubcommand((subcommand) =>
+    addTargetOptions(
+      subcommand.setName("revoke").setDescription("Remove a previously granted permission")
+    )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("list")
+      .setDescription("Show the configured command permissions")
+      .addStringOption((option) =>
+        option
+          .setName("command")
+          .setDescription("Only show this command or subcommand")
+          .setRequired(false)
+      )
+  );
+
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+  try {
+    switch (interaction.options.getSubcommand()) {
+      case "grant":
+        return await updatePermission(interaction, true);
+      case "revoke":
+        return await updatePermission(interaction, false);
+      case "list":
+        return await listPermissions(interaction);
+    }
+  } catch (error) {
+    console.error("Error executing permissions command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+async function updatePermission(
+  interaction: ChatInputCommandInteraction,
+  grant: boolean
+): Promise<void> {
+  const commandKey = normalizeCommandKey(interaction.options.getString("command", true));
+  if (!isKnownCommandKey(interaction, commandKey)) {
+    return await sendErrorResponse(interaction, `Unknown command \`/${commandKey}\`.`);
+  }
+
+  const role = interaction.options.getRole("role");
+  const user = interaction.options.getUser("user");
+  const permission = interaction.options.getString("permission");
+
+  const targets = [
+    role && { type: PermissionTargetType.ROLE, id: role.id },
+    user && { type: PermissionTargetType.USER, id: user.id },
+    permission && { type: PermissionTargetType.PERMISSION, id: permission },
+  ].filter((target): target is { type: PermissionTargetType; id: string } => Boolean(target));
+
+  if (targets.length !== 1) {
+    return await sendErrorResponse(
+      interaction,
+      "Please provide exactly one of `role`, `user` or `permission`."
+    );
+  }
+
+  const [target] = targets;
+  const changed = grant
+    ? database.addCommandPermission(interaction.guildId!, commandKey, target.type, target.id)
+    : database.removeCommandPermission(interaction.guildId!, commandKey, target.type, target.id);
+
+  const targetLabel = formatTarget(target.type, target.id);
+  if (!changed) {
+    return await sendErrorResponse(
+      interaction,
+      grant
+        ? `${targetLabel} can already use \`/${commandKey}\`.`
+        : `${targetLabel} has no permission on \`/${commandKey}\` to revoke.`
+    );
+  }
+
+  const remaining = database.getCommandPermissions(interaction.guildId!, commandKey);
+  let content = grant
+    ? `Granted ${targetLabel} access to \`/${commandKey}\`.`
+    : `Revoked ${targetLabel}'s access to \`/${commandKey}\`.`;
+  if (!grant && remaining.length === 0) {
+    content += ` No rules remain, so \`/${commandKey}\` is back to its default access.`;
+  }
+
+  await interaction.reply({ content, ephemeral: true });
+}
+
+async function listPermissions(interaction: ChatInputCommandInteraction): Promise<void> {
+  const filter = interaction.options.getString("command");
+  const permissions = database.getCommandPermissions(
+    interaction.guildId!,
+    filter ? normalizeCommandKey(filter) : undefined
+  );
+
+  const grouped = new Map<string, CommandPermission[]>();
+  for (const permission of permissions) {
+    grouped.set(permission.command, [...(grouped.get(permission.command) ?? []), permission]);
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle("Command Permissions")
+    .setColor(0x0099ff)
+    .setTimestamp()
+    .setFooter({ text: "Commands without rules use their default access" });
+
+  if (grouped.size === 0) {
+    embed.setDescription("No command permissions configured.");
+  } else {
+    embed.addFields(
+      [...grouped.entries()].slice(0, 25).map(([command, rules]) => ({
+        name: `/${command}`,
+        value: rules.map((rule) => formatTarget(rule.targetType, rule.targetId)).join(", "),
+        inline: false,
+      }))
+    );
+  }
+
+  await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+function normalizeCommandKey(input: string): string {
+  return input.trim().replace(/^\//, "").toLowerCase().split(/\s+/).join(" ");
+}
+
+function isKnownCommandKey(interaction: ChatInputCommandInteraction, key: string): boolean {
+  const command = interaction.client.commands.get(key.split(" ")[0]);
+  return Boolean(command) && getCommandKeys(command).includes(key);
+}
+
+function formatTarget(type: PermissionTargetType, id: string): string {
+  switch (type) {
+    case PermissionTargetType.ROLE:
+      return `<@&${id}>`;
+    case PermissionTargetType.USER:
+      return `<@${id}>`;
+    case PermissionTargetType.PERMISSION:
+      return `\`${id}\``;
+  }
+}
+
+export default { data, execute, guildOnly: true } satisfies Command;
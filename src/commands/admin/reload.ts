@@ -0,0 +1,49 @@
+import {
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  PermissionFlagsBits,
+} from "discord.js";
+import { deployCommands, reloadCommand } from "../../loaders";
+import { requireBotOwner } from "../../services/commandMiddleware";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+const data = new SlashCommandBuilder()
+  .setName("reload")
+  .setDescription("Reload a command from disk without restarting the bot (bot owner only)")
+  .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+  .addStringOption((option) =>
+    option.setName("command").setDescription("Name of the command to reload").setRequired(true)
+  );
+
+async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+  try {
+    const name = interaction.options.getString("command", true).trim().replace(/^\//, "").toLowerCase();
+
+    try {
+      if (!(await reloadCommand(interaction.client, name))) {
+        return await sendErrorResponse(interaction, `There is no command called \`/${name}\`.`);
+      }
+    } catch (error) {
+      console.error(`Failed to reload command ${name}:`, error);
+      return await sendErrorResponse(
+        interaction,
+        `Reloading \`/${name}\` failed, so the previous version is still running: ${(error as Error).message}`
+      );
+    }
+
+    // Pushes the new definition if its options or description changed
+    await deployCommands(interaction.client);
+    await interaction.editReply({ content: `Reloaded \`/${name}\`.` });
+  } catch (error) {
+    console.error("Error executing reload command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+export default {
+  data,
+  execute,
+  before: [requireBotOwner],
+  autoDefer: { ephemeral: true },
+} satisfies Command;
@@ -7,6 +7,11 @@ import {
   User,
 } from "discord.js";
 import type { ColorResolvable } from "discord.js";
+import { getHierarchyError, hasModeratorRole } from "../../utils/moderation";
+import { ModLogEvent } from "../../database/database";
+import { sendModLog } from "../../services/modLog";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
 
 interface NicknameResult {
   success: boolean;
@@ -69,13 +74,9 @@ function isValidNickname(nickname: string): boolean {
   return true;
 }
 
-async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
   try {
-    if (!interaction.guild) {
-      return await sendErrorResponse(interaction, "This command can only be used in a server.");
-    }
-
-    const member = interaction.member as GuildMember;
+    const member = interaction.member;
     const targetUser = interaction.options.getUser("user");
     const newNickname = interaction.options.getString("nickname");
     const reason = interaction.options.getString("reason") || "No reason provided";
@@ -87,21 +88,10 @@ async function execute(interaction: ChatInputCommandInteraction): Promise<void>
       );
     }
 
-    if (!member) {
-      return await sendErrorResponse(interaction, "Could not find your member information.");
-    }
-
     if (targetUser && targetUser.id !== member.id) {
-      const allowedRoles = ["Ethan"];
-      const hasModeratorRole = member.roles.cache.some((role) =>
-        allowedRoles.some((allowedRole) =>
-          role.name.toLowerCase().includes(allowedRole.toLowerCase())
-        )
-      );
-
       const isServerOwner = member.id === interaction.guild.ownerId;
       if (
-        !hasModeratorRole &&
+        !hasModeratorRole(member) &&
         !member.permissions.has(PermissionFlagsBits.ManageNicknames) &&
         !isServerOwner
       ) {
@@ -124,21 +114,14 @@ async function execute(interaction: ChatInputCommandInteraction): Promise<void>
         return await sendErrorResponse(interaction, "Could not find that user in this server.");
       }
 
-      if (!targetMember.manageable) {
-        return await sendErrorResponse(
-          interaction,
-          `I cannot change ${targetUser.tag}'s nickname due to role hierarchy. Their highest role is equal to or higher than mine.`
-        );
-      }
-
-      if (
-        member.roles.highest.position <= targetMember.roles.highest.position &&
-        member.id !== interaction.guild.ownerId
-      ) {
-        return await sendErrorResponse(
-          interaction,
-          "You cannot change the nickname of someone with an equal or higher role."
-        );
+      const hierarchyError = getHierarchyError(
+        member,
+        targetMember,
+        interaction.guild,
+        "change the nickname of"
+      );
+      if (hierarchyError) {
+        return await sendErrorResponse(interaction, hierarchyError);
       }
 
       const result = await changeNickname(targetMember, newNickname, member.user.tag, reason, true);
@@ -149,7 +132,7 @@ async function execute(interaction: ChatInputCommandInteraction): Promise<void>
           ephemeral: true,
         });
 
-        await sendToLoggingChannel(interaction, result);
+        await sendToLoggingChannel(interaction, targetMember, result);
       } else {
         const embed = createNicknameEmbed(result, interaction);
         await interaction.reply({
@@ -192,7 +175,7 @@ async function execute(interaction: ChatInputCommandInteraction): Promise<void>
     }
   } catch (error) {
     console.error("Error in nickname command:", error);
-    await handleNicknameError(interaction, error);
+    await sendErrorResponse(interaction, "Failed to execute nickname command");
   }
 }
 
@@ -352,79 +335,30 @@ function createNicknameEmbed(
 
 async function sendToLoggingChannel(
   interaction: ChatInputCommandInteraction,
+  targetMember: GuildMember,
   result: NicknameResult
 ): Promise<void> {
-  try {
-    const logChannelNames = ["logs", "mod-logs", "moderation-logs", "audit-logs", "staff-logs"];
-    let logChannel = null;
-
-    for (const channelName of logChannelNames) {
-      logChannel = interaction.guild?.channels.cache.find(
-        (channel) => channel.name === channelName && channel.isTextBased()
-      );
-      if (logChannel) break;
-    }
-
-    if (logChannel && logChannel.isTextBased()) {
-      const embed = createNicknameEmbed(result, interaction);
-      await logChannel.send({ embeds: [embed] });
-    } else {
-      console.log(
-        `🔧 Nickname changed by ${result.moderator}: ${result.targetUser} -> "${
-          result.newNickname || "cleared"
-        }" (Reason: ${result.reason})`
-      );
-    }
-  } catch (error) {
-    console.error("Failed to send to logging channel:", error);
-    console.log(
-      `🔧 Nickname changed by ${result.moderator}: ${result.targetUser} -> "${
-        result.newNickname || "cleared"
-      }" (Reason: ${result.reason})`
-    );
-  }
-}
-
-async function handleNicknameError(
-  interaction: ChatInputCommandInteraction,
-  error: unknown
-): Promise<void> {
-  const errorEmbed = new EmbedBuilder()
-    .setTitle("❌ Error")
-    .setDescription("Failed to execute nickname command")
-    .setColor(0xff0000)
-    .setTimestamp();
-
-  try {
-    if (interaction.replied || interaction.deferred) {
-      await interaction.followUp({ embeds: [errorEmbed], ephemeral: true });
-    } else {
-      await interaction.reply({ embeds: [errorEmbed], ephemeral: true });
-    }
-  } catch (followUpError) {
-    console.error("Failed to send error message:", followUpError);
+  if (!interaction.guild) return;
+
+  const fields = [
+    { name: "Previous Nickname", value: result.oldNickname ?? "None", inline: true },
+    { name: "New Nickname", value: result.newNickname ?? "Cleared", inline: true },
+  ];
+  if (result.reason) {
+    fields.push({ name: "Reason", value: result.reason, inline: false });
   }
-}
-
-async function sendErrorResponse(
-  interaction: ChatInputCommandInteraction,
-  message: string
-): Promise<void> {
-  const errorEmbed = new EmbedBuilder()
-    .setTitle("❌ Error")
-    .setDescription(message)
-    .setColor(0xff0000)
-    .setTimestamp();
 
-  try {
-    if (interaction.replied || interaction.deferred) {
-      await interaction.followUp({ embeds: [errorEmbed], ephemeral: true });
-    } else {
-      await interaction.reply({ embeds: [errorEmbed], ephemeral: true });
-    }
-  } catch (replyError) {
-    console.error("Failed to send error response:", replyError);
-  }
+  await sendModLog(interaction.guild, {
+    event: ModLogEvent.NICKNAME,
+    title: result.newNickname ? "🔧 Nickname Updated" : "🔧 Nickname Cleared",
+    color: 0x00ff00,
+    user: { id: targetMember.id, tag: targetMember.user.tag },
+    moderator: result.moderator,
+    fields,
+    summary: `🔧 Nickname changed by ${result.moderator}: ${result.targetUser} -> "${
+      result.newNickname || "cleared"
+    }" (Reason: ${result.reason})`,
+  });
 }
 
-export default { data, execute };
\ No newline at end of file
+export default { data, execute, guildOnly: true } satisfies Command;
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, PermissionFlagsBits } from "discord.js";
+import database, { InfractionType } from "../../database/database";
+import { formatDuration, parseDuration } from "../../utils/duration";
+import type { Command, CommandContext } from "../../events/interactionCreate";
+import { logPunishment, sendPunishmentMessageToUser } from "../../utils/moderation";
+import { sendErrorResponse } from "../../utils/responses";
+
+const data = new SlashCommandBuilder()
+  .setName("ban")
+  .setDescription("Ban a user from the server")
+  .addUserOption((option) =>
+    option.setName("target").setDescription("The user to ban").setRequired(true)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("reason")
+      .setDescription("The reason for the ban")
+      .setRequired(true)
+      .setMaxLength(512)
+  )
+  .addIntegerOption((option) =>
+    option
+      .setName("delete-messages")
+      .setDescription("How much of their recent message history to delete")
+      .setRequired(false)
+      .addChoices(
+        { name: "Don't delete any", value: 0 },
+        { name: "Previous hour", value: 60 * 60 },
+        { name: "Previous 6 hours", value: 6 * 60 * 60 },
+        { name: "Previous 24 hours", value: 24 * 60 * 60 },
+        { name: "Previous 3 days", value: 3 * 24 * 60 * 60 },
+        { name: "Previous 7 days", value: 7 * 24 * 60 * 60 }
+      )
+  )
+  .addStringOption((option) =>
+    option
+      .setName("duration")
+      .setDescription("Lift the ban automatically after this long, e.g. 1h, 7d (permanent if empty)")
+      .setRequired(false)
+  );
+
+async function execute(
+  interaction: ChatInputCommandInteraction<"cached">,
+  { target: targetMember }: CommandContext
+): Promise<void> {
+  try {
+    const member = interaction.member;
+    const targetUser = interaction.options.getUser("target", true);
+    const reason = interaction.options.getString("reason", true);
+    const deleteMessageSeconds = interaction.options.getInteger("delete-messages") ?? 0;
+    const durationInput = interaction.options.getString("duration");
+    const durationMs = durationInput ? parseDuration(durationInput) : null;
+
+    if (durationInput && !durationMs) {
+      return await sendErrorResponse(
+        interaction,
+        "Please provide a valid duration, e.g. `12h`, `7d` or `2w`."
+      );
+    }
+
+    if (targetMember && !targetMember.bannable) {
+      return await sendErrorResponse(interaction, `I cannot ban ${targetUser.tag}.`);
+    }
+
+    const existingBan = await interaction.guild.bans.fetch(targetUser.id).catch(() => null);
+    if (existingBan) {
+      return await sendErrorResponse(interaction, `${targetUser.tag} is already banned.`);
+    }
+
+    // Record first so the DM can reference the case number; the DM has to
+    // go out before the ban while we still share a server with the user.
+    const infraction = database.addInfraction(
+      targetUser.id,
+      interaction.guild.id,
+      interaction.user.id,
+      InfractionType.BAN,
+      reason,
+      { expiresAt: durationMs ? new Date(Date.now() + durationMs) : undefined }
+    );
+    const details = {
+      type: InfractionType.BAN,
+      reason,
+      moderator: member.user.tag,
+      infraction,
+      duration: durationMs ? formatDuration(durationMs) : undefined,
+    };
+
+    const dmStatus = targetMember
+      ? await sendPunishmentMessageToUser(targetUser, interaction.guild, details)
+      : undefined;
+    try {
+      await interaction.guild.members.ban(targetUser.id, {
+        reason: `${member.user.tag}: ${reason}`,
+        deleteMessageSeconds,
+      });
+    } catch (error) {
+      database.revokeInfraction(
+        interaction.guild.id,
+        infraction.id,
+        interaction.client.user.id,
+        "Ban could not be applied"
+      );
+      throw error;
+    }
+
+    await interaction.reply({
+      content: `Successfully banned ${targetUser.tag}${
+        details.duration ? ` for ${details.duration}` : ""
+      }\nReason: ${reason}`,
+      ephemeral: false,
+    });
+    await logPunishment(interaction.guild, targetUser, { ...details, dmStatus });
+  } catch (error) {
+    console.error("Error executing ban command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+export default {
+  data,
+  execute,
+  moderatorOnly: true,
+  guildOnly: true,
+  botPermissions: PermissionFlagsBits.BanMembers,
+  // Users who already left the server can still be banned; the hierarchy
+  // checks only apply to current members.
+  hierarchyTarget: { option: "target", verb: "ban", requireMember: false },
+  cooldown: { seconds: 5 },
+} satisfies Command;
@@ -0,0 +1,194 @@
+import {
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  EmbedBuilder,
+  PermissionFlagsBits,
+} from "discord.js";
+import { DEFAULT_INFRACTION_POINTS, InfractionType } from "../../database/database";
+import { formatDuration, parseDuration } from "../../utils/duration";
+import {
+  BulkActionType,
+  checkTargets,
+  createBulkButtonRow,
+  createPendingAction,
+  formatTargetList,
+  MAX_BULK_TARGETS,
+  parseUserIds,
+} from "../../services/bulkActions";
+import { MAX_TIMEOUT_MS } from "../../services/escalation";
+import type { Command, CommandMiddleware } from "../../events/interactionCreate";
+import { CommandError, sendErrorResponse } from "../../utils/responses";
+
+const requiredPermissions: Partial<Record<BulkActionType, { flag: bigint; name: string }>> = {
+  [InfractionType.TIMEOUT]: { flag: PermissionFlagsBits.ModerateMembers, name: "Timeout Members" },
+  [InfractionType.KICK]: { flag: PermissionFlagsBits.KickMembers, name: "Kick Members" },
+  [InfractionType.BAN]: { flag: PermissionFlagsBits.BanMembers, name: "Ban Members" },
+};
+
+// The permission the bot needs depends on the chosen action, so it can't be
+// declared with botPermissions
+const requireActionPermission: CommandMiddleware = async (interaction) => {
+  const type = interaction.options.getString("action", true) as BulkActionType;
+  const permission = requiredPermissions[type];
+  if (permission && !interaction.guild?.members.me?.permissions.has(permission.flag)) {
+    throw new CommandError(
+      `I don't have permission to do that. Please ask an administrator to grant me the '${permission.name}' permission.`
+    );
+  }
+};
+
+const data = new SlashCommandBuilder()
+  .setName("bulk")
+  .setDescription("Warn or punish several users at once")
+  .addStringOption((option) =>
+    option
+      .setName("action")
+      .setDescription("What to do to every user")
+      .setRequired(true)
+      .addChoices(
+        { name: "Warn", value: InfractionType.WARN },
+        { name: "Timeout", value: InfractionType.TIMEOUT },
+        { name: "Kick", value: InfractionType.KICK },
+        { name: "Ban", value: InfractionType.BAN }
+      )
+  )
+  .addStringOption((option) =>
+    option
+      .setName("users")
+      .setDescription(`Mentions or user IDs separated by spaces, commas or new lines (max ${MAX_BULK_TARGETS})`)
+      .setRequired(true)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("reason")
+      .setDescription("The reason applied to every user")
+      .setRequired(true)
+      .setMaxLength(512)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("duration")
+      .setDescription("Timeout length (required for timeouts) or temporary ban length, e.g. 1h, 7d")
+      .setRequired(false)
+  )
+  .addIntegerOption((option) =>
+    option
+      .setName("points")
+      .setDescription(
+        `Severity points for each warning (default ${DEFAULT_INFRACTION_POINTS[InfractionType.WARN]})`
+      )
+      .setRequired(false)
+      .setMinValue(0)
+      .setMaxValue(100)
+  );
+
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+  try {
+    const member = interaction.member;
+    const type = interaction.options.getString("action", true) as BulkActionType;
+    const userIds = parseUserIds(interaction.options.getString("users", true));
+    const reason = interaction.options.getString("reason", true);
+    const durationInput = interaction.options.getString("duration");
+    const durationMs = durationInput ? parseDuration(durationInput) : null;
+    const points = interaction.options.getInteger("points") ?? undefined;
+
+    if (userIds.length === 0) {
+      return await sendErrorResponse(interaction, "Please mention at least one user or paste their IDs.");
+    }
+
+    if (userIds.length > MAX_BULK_TARGETS) {
+      return await sendErrorResponse(
+        interaction,
+        `You can action at most ${MAX_BULK_TARGETS} users at once; ${userIds.length} were given.`
+      );
+    }
+
+    if (durationInput && !durationMs) {
+      return await sendErrorResponse(
+        interaction,
+        "Please provide a valid duration, e.g. `10m`, `12h` or `7d`."
+      );
+    }
+
+    if (type === InfractionType.TIMEOUT && (!durationMs || durationMs > MAX_TIMEOUT_MS)) {
+      return await sendErrorResponse(
+        interaction,
+        "Timeouts need a duration between 1s and 28d, e.g. `10m`, `1h30m` or `7d`."
+      );
+    }
+
+    const checks = await checkTargets(interaction.guild, member, type, userIds);
+    const eligible = checks.filter((check) => !check.error);
+    const skipped = checks.filter((check) => check.error);
+
+    const preview = new EmbedBuilder()
+      .setTitle(`Bulk ${type} preview`)
+      .setDescription(`Reason: ${reason}`)
+      .addFields({
+        name: `Will be actioned (${eligible.length})`,
+        value: formatTargetList(eligible.map((check) => `${check.user!.tag} (${check.userId})`)),
+        inline: false,
+      })
+      .setColor(0xffcc00)
+      .setTimestamp();
+
+    // Kicks are never temporary, so a duration only matters for the other types
+    if (durationMs && type !== InfractionType.KICK) {
+      preview.addFields({ name: "Duration", value: formatDuration(durationMs), inline: true });
+    }
+
+    if (type === InfractionType.WARN) {
+      preview.addFields({
+        name: "Points",
+        value: `${points ?? DEFAULT_INFRACTION_POINTS[InfractionType.WARN]} each`,
+        inline: true,
+      });
+    }
+
+    if (skipped.length > 0) {
+      preview.addFields({
+        name: `Will be skipped (${skipped.length})`,
+        value: formatTargetList(
+          skipped.map((check) => `${check.user?.tag ?? check.userId}: ${check.error}`)
+        ),
+        inline: false,
+      });
+    }
+
+    if (eligible.length === 0) {
+      preview.setColor(0xff0000).setFooter({ text: "None of these users can be actioned." });
+      await interaction.editReply({ embeds: [preview], components: [] });
+      return;
+    }
+
+    const pending = createPendingAction({
+      guildId: interaction.guild.id,
+      moderatorId: interaction.user.id,
+      type,
+      userIds: eligible.map((check) => check.userId),
+      reason,
+      durationMs: durationMs ?? undefined,
+      points,
+    });
+    preview.setFooter({ text: "Confirm within 5 minutes. Targets are checked again on confirm." });
+
+    await interaction.editReply({
+      embeds: [preview],
+      components: [createBulkButtonRow(pending)],
+    });
+  } catch (error) {
+    console.error("Error executing bulk command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+export default {
+  data,
+  execute,
+  moderatorOnly: true,
+  guildOnly: true,
+  before: [requireActionPermission],
+  // Target checks fetch every user, which can take longer than Discord's 3 seconds
+  autoDefer: { ephemeral: true },
+  cooldown: { seconds: 15 },
+} satisfies Command;
@@ -0,0 +1,167 @@
+import {
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  EmbedBuilder,
+  PermissionFlagsBits,
+} from "discord.js";
+import database, { InfractionType } from "../../database/database";
+import {
+  ESCALATION_ACTIONS,
+  getEffectiveDuration,
+  MAX_TIMEOUT_MS,
+} from "../../services/escalation";
+import { formatDuration, parseDuration } from "../../utils/duration";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+const data = new SlashCommandBuilder()
+  .setName("escalation")
+  .setDescription("Configure automatic punishments for repeated warnings")
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("set")
+      .setDescription("Add or replace the rule for a warning count")
+      .addIntegerOption((option) =>
+        option
+          .setName("warnings")
+          .setDescription("Number of warnings that triggers the action")
+          .setRequired(true)
+          .setMinValue(1)
+          .setMaxValue(100)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName("window-days")
+          .setDescription("Only count warnings from the last N days")
+          .setRequired(true)
+          .setMinValue(1)
+          .setMaxValue(3650)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("action")
+          .setDescription("What to do when the threshold is reached")
+          .setRequired(true)
+          .addChoices(...ESCALATION_ACTIONS.map((action) => ({ name: action, value: action })))
+      )
+      .addStringOption((option) =>
+        option
+          .setName("duration")
+          .setDescription("Duration for timeouts, mutes and bans, e.g. 1h, 7d")
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("remove")
+      .setDescription("Remove an escalation rule")
+      .addIntegerOption((option) =>
+        option.setName("id").setDescription("The rule ID from /escalation list").setRequired(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand.setName("list").setDescription("Show this server's escalation rules")
+  );
+
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+  try {
+    switch (interaction.options.getSubcommand()) {
+      case "set":
+        return await setRule(interaction);
+      case "remove":
+        return await removeRule(interaction);
+      case "list":
+        return await listRules(interaction);
+    }
+  } catch (error) {
+    console.error("Error executing escalation command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+async function setRule(interaction: ChatInputCommandInteraction): Promise<void> {
+  const threshold = interaction.options.getInteger("warnings", true);
+  const windowDays = interaction.options.getInteger("window-days", true);
+  const action = interaction.options.getString("action", true) as InfractionType;
+  const durationInput = interaction.options.getString("duration");
+  const durationMs = durationInput ? parseDuration(durationInput) : null;
+
+  if (durationInput && !durationMs) {
+    return await sendErrorResponse(
+      interaction,
+      "Please provide a valid duration, e.g. `30m`, `1h` or `7d`."
+    );
+  }
+
+  if (action === InfractionType.KICK && durationMs) {
+    return await sendErrorResponse(interaction, "Kicks cannot have a duration.");
+  }
+
+  if (action === InfractionType.TIMEOUT && durationMs && durationMs > MAX_TIMEOUT_MS) {
+    return await sendErrorResponse(interaction, "Timeouts can last at most 28 days.");
+  }
+
+  const id = database.setEscalationRule(
+    interaction.guildId!,
+    threshold,
+    windowDays,
+    action,
+    durationMs ?? undefined
+  );
+
+  await interaction.reply({
+    content: `Rule #${id} saved: ${formatRule(threshold, windowDays, action, durationMs ?? undefined)}`,
+    ephemeral: true,
+  });
+}
+
+async function removeRule(interaction: ChatInputCommandInteraction): Promise<void> {
+  const id = interaction.options.getInteger("id", true);
+
+  if (!database.removeEscalationRule(interaction.guildId!, id)) {
+    return await sendErrorResponse(interaction, `No escalation rule with ID ${id} was found.`);
+  }
+
+  await interaction.reply({ content: `Removed escalation rule #${id}.`, ephemeral: true });
+}
+
+async function listRules(interaction: ChatInputCommandInteraction): Promise<void> {
+  const rules = database.getEscalationRules(interaction.guildId!);
+
+  const embed = new EmbedBuilder()
+    .setTitle("Escalation Rules")
+    .setColor(0x0099ff)
+    .setTimestamp()
+    .setDescription(
+      rules.length === 0
+        ? "No escalation rules configured. Add one with `/escalation set`."
+        : rules
+            .map(
+              (rule) =>
+                `**#${rule.id}** — ${formatRule(
+                  rule.threshold,
+                  rule.windowDays,
+                  rule.action,
+                  rule.durationMs
+                )}`
+            )
+            .join("\n")
+    );
+
+  await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+function formatRule(
+  threshold: number,
+  windowDays: number,
+  action: InfractionType,
+  durationMs?: number
+): string {
+  const effectiveMs = getEffectiveDuration(action, durationMs);
+  const capped = durationMs && effectiveMs && effectiveMs < durationMs ? " (capped at 28 days)" : "";
+  const duration = effectiveMs ? ` for ${formatDuration(effectiveMs)}${capped}` : "";
+  return `${threshold} warnings in ${windowDays} days → ${action}${duration}`;
+}
+
+export default { data, execute, guildOnly: true } satisfies Command;
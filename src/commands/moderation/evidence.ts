@@ -0,0 +1,160 @@
+import {
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  EmbedBuilder,
+} from "discord.js";
+import database, { Infraction, ModLogEvent } from "../../database/database";
+import {
+  archiveEvidence,
+  collectEvidence,
+  formatArchivePath,
+  formatEvidenceLinks,
+  MAX_EVIDENCE_PER_INFRACTION,
+} from "../../services/evidence";
+import { sendModLog } from "../../services/modLog";
+import { formatCase } from "../../utils/cases";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+const data = new SlashCommandBuilder()
+  .setName("evidence")
+  .setDescription("Manage evidence attached to an infraction")
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("add")
+      .setDescription("Attach more evidence to an existing infraction")
+      .addIntegerOption((option) =>
+        option
+          .setName("case")
+          .setDescription("The case number")
+          .setRequired(true)
+          .setMinValue(1)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("url")
+          .setDescription("Evidence URL link")
+          .setRequired(false)
+          .setMaxLength(512)
+      )
+      .addAttachmentOption((option) =>
+        option
+          .setName("attachment")
+          .setDescription("Screenshot or file to attach")
+          .setRequired(false)
+      )
+      .addAttachmentOption((option) =>
+        option
+          .setName("attachment-2")
+          .setDescription("An additional screenshot or file")
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("list")
+      .setDescription("Show all evidence for an infraction")
+      .addIntegerOption((option) =>
+        option
+          .setName("case")
+          .setDescription("The case number")
+          .setRequired(true)
+          .setMinValue(1)
+      )
+  );
+
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+  try {
+    const caseNumber = interaction.options.getInteger("case", true);
+    const infraction = database.getInfractionByCase(interaction.guild.id, caseNumber);
+    if (!infraction) {
+      return await sendErrorResponse(interaction, `Case #${caseNumber} was not found.`);
+    }
+
+    switch (interaction.options.getSubcommand()) {
+      case "add":
+        return await addEvidence(interaction, infraction);
+      case "list":
+        return await listEvidence(interaction, infraction);
+    }
+  } catch (error) {
+    console.error("Error executing evidence command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+async function addEvidence(
+  interaction: ChatInputCommandInteraction,
+  infraction: Infraction
+): Promise<void> {
+  const { evidence, error } = collectEvidence(interaction, "url", ["attachment", "attachment-2"]);
+  if (error) {
+    return await sendErrorResponse(interaction, error);
+  }
+
+  if (evidence.length === 0) {
+    return await sendErrorResponse(interaction, "Please provide a URL or at least one attachment.");
+  }
+
+  const existing = database.getInfractionEvidence(infraction.id);
+  if (existing.length + evidence.length > MAX_EVIDENCE_PER_INFRACTION) {
+    return await sendErrorResponse(
+      interaction,
+      `An infraction can hold at most ${MAX_EVIDENCE_PER_INFRACTION} pieces of evidence (${existing.length} already attached).`
+    );
+  }
+
+  for (const item of evidence) {
+    database.addEvidence(infraction.id, item, interaction.user.id);
+  }
+
+  await interaction.reply({
+    content: `Added ${evidence.length} piece(s) of evidence to ${formatCase(infraction)}.`,
+    ephemeral: true,
+  });
+
+  await sendModLog(interaction.guild!, {
+    event: ModLogEvent.INFRACTION,
+    title: "Evidence Added",
+    color: 0x0099ff,
+    user: { id: infraction.userId },
+    moderator: interaction.user.tag,
+    fields: [{ name: "Evidence", value: formatEvidenceLinks(evidence), inline: false }],
+    footer: formatCase(infraction),
+    summary: `📎 Evidence added by ${interaction.user.tag} to ${formatCase(infraction)}`,
+  });
+  await archiveEvidence(interaction.guild!, infraction);
+}
+
+async function listEvidence(
+  interaction: ChatInputCommandInteraction,
+  infraction: Infraction
+): Promise<void> {
+  const evidence = database.getInfractionEvidence(infraction.id);
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Evidence for ${formatCase(infraction)}`)
+    .setColor(0x0099ff)
+    .setTimestamp();
+
+  if (evidence.length === 0) {
+    embed.setDescription("No evidence attached.");
+  } else {
+    embed.setDescription(
+      evidence
+        .map(
+          (item, index) =>
+            `**${index + 1}.** [${item.filename ?? "Link"}](${item.url}) — added by <@${
+              item.addedBy
+            }> <t:${Math.floor(item.createdAt.getTime() / 1000)}:R>${
+              item.localPath ? ` • archived at \`${formatArchivePath(item.localPath)}\`` : ""
+            }`
+        )
+        .join("\n")
+    );
+  }
+
+  await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+export default { data, execute, moderatorOnly: true, guildOnly: true } satisfies Command;
@@ -0,0 +1,203 @@
+import {
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+} from "discord.js";
+import database, { Infraction, InfractionStatus, ModLogEvent } from "../../database/database";
+import { sendModLog } from "../../services/modLog";
+import { formatCase } from "../../utils/cases";
+import { undoPunishment } from "../../utils/moderation";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+const data = new SlashCommandBuilder()
+  .setName("infraction")
+  .setDescription("Revoke, pardon or amend an existing infraction")
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("revoke")
+      .setDescription("Remove an infraction that was issued by mistake")
+      .addIntegerOption((option) =>
+        option
+          .setName("case")
+          .setDescription("The case number")
+          .setRequired(true)
+          .setMinValue(1)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("reason")
+          .setDescription("Why it is being revoked")
+          .setRequired(true)
+          .setMaxLength(512)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("pardon")
+      .setDescription("Pardon an infraction while keeping it on record")
+      .addIntegerOption((option) =>
+        option
+          .setName("case")
+          .setDescription("The case number")
+          .setRequired(true)
+          .setMinValue(1)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("reason")
+          .setDescription("Why it is being pardoned")
+          .setRequired(true)
+          .setMaxLength(512)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("edit-reason")
+      .setDescription("Change the reason recorded on an infraction")
+      .addIntegerOption((option) =>
+        option
+          .setName("case")
+          .setDescription("The case number")
+          .setRequired(true)
+          .setMinValue(1)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("new-reason")
+          .setDescription("The corrected reason")
+          .setRequired(true)
+          .setMaxLength(512)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("reason")
+          .setDescription("Why the reason is being changed")
+          .setRequired(false)
+          .setMaxLength(512)
+      )
+  );
+
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+  try {
+    const caseNumber = interaction.options.getInteger("case", true);
+    const infraction = database.getInfractionByCase(interaction.guild.id, caseNumber);
+    if (!infraction) {
+      return await sendErrorResponse(interaction, `Case #${caseNumber} was not found.`);
+    }
+
+    switch (interaction.options.getSubcommand()) {
+      case "revoke":
+        return await revokeInfraction(interaction, infraction);
+      case "pardon":
+        return await pardonInfraction(interaction, infraction);
+      case "edit-reason":
+        return await editInfractionReason(interaction, infraction);
+    }
+  } catch (error) {
+    console.error("Error executing infraction command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+async function revokeInfraction(
+  interaction: ChatInputCommandInteraction<"cached">,
+  infraction: Infraction
+): Promise<void> {
+  const reason = interaction.options.getString("reason", true);
+
+  if (!database.revokeInfraction(infraction.guildId, infraction.id, interaction.user.id, reason)) {
+    return await sendErrorResponse(
+      interaction,
+      `${formatCase(infraction)} is already ${infraction.status.toLowerCase()}.`
+    );
+  }
+
+  await replyWithLiftResult(interaction, infraction, `Revoked ${formatCase(infraction)}.`, reason);
+  await sendChangeLog(interaction, infraction, "Infraction Revoked", reason);
+}
+
+async function pardonInfraction(
+  interaction: ChatInputCommandInteraction<"cached">,
+  infraction: Infraction
+): Promise<void> {
+  const reason = interaction.options.getString("reason", true);
+
+  if (!database.pardonInfraction(infraction.guildId, infraction.id, interaction.user.id, reason)) {
+    return await sendErrorResponse(
+      interaction,
+      `${formatCase(infraction)} is already ${infraction.status.toLowerCase()}.`
+    );
+  }
+
+  await replyWithLiftResult(interaction, infraction, `Pardoned ${formatCase(infraction)}.`, reason);
+  await sendChangeLog(interaction, infraction, "Infraction Pardoned", reason);
+}
+
+async function replyWithLiftResult(
+  interaction: ChatInputCommandInteraction<"cached">,
+  infraction: Infraction,
+  content: string,
+  reason: string
+): Promise<void> {
+  const liftError = await undoPunishment(interaction.guild, infraction, reason);
+  await interaction.reply({
+    content: liftError ? `${content}\n⚠️ ${liftError}` : content,
+    ephemeral: true,
+  });
+}
+
+async function editInfractionReason(
+  interaction: ChatInputCommandInteraction,
+  infraction: Infraction
+): Promise<void> {
+  const newReason = interaction.options.getString("new-reason", true);
+  const reason = interaction.options.getString("reason") || "No reason provided";
+
+  if (infraction.status === InfractionStatus.REVOKED) {
+    return await sendErrorResponse(
+      interaction,
+      `${formatCase(infraction)} has been revoked and can no longer be edited.`
+    );
+  }
+
+  database.updateInfractionReason(
+    infraction.guildId,
+    infraction.id,
+    newReason,
+    interaction.user.id,
+    reason
+  );
+
+  await interaction.reply({
+    content: `Updated the reason on ${formatCase(infraction)}.`,
+    ephemeral: true,
+  });
+  await sendChangeLog(interaction, infraction, "Infraction Reason Edited", reason, [
+    { name: "Old Reason", value: infraction.reason, inline: false },
+    { name: "New Reason", value: newReason, inline: false },
+  ]);
+}
+
+async function sendChangeLog(
+  interaction: ChatInputCommandInteraction,
+  infraction: Infraction,
+  title: string,
+  reason: string,
+  extraFields: { name: string; value: string; inline: boolean }[] = []
+): Promise<void> {
+  if (!interaction.guild) return;
+
+  await sendModLog(interaction.guild, {
+    event: ModLogEvent.INFRACTION,
+    title,
+    color: 0x808080,
+    description: `Reason: ${reason}`,
+    user: { id: infraction.userId },
+    moderator: interaction.user.tag,
+    fields: [{ name: "Type", value: infraction.type, inline: true }, ...extraFields],
+    footer: formatCase(infraction),
+    summary: `📝 ${title} by ${interaction.user.tag}: ${formatCase(infraction)} (Reason: ${reason})`,
+  });
+}
+
+export default { data, execute, moderatorOnly: true, guildOnly: true } satisfies Command;
@@ -0,0 +1,147 @@
+import {
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+} from "discord.js";
+import database, { InfractionType } from "../../database/database";
+import { buildHistoryPage, createInfractionEmbed } from "../../utils/infractionHistory";
+import {
+  buildSearchPage,
+  endOfSearchDay,
+  MAX_SEARCH_QUERY_LENGTH,
+  parseSearchDate,
+} from "../../utils/infractionSearch";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+const typeChoices = Object.values(InfractionType).map((type) => ({ name: type, value: type }));
+
+const data = new SlashCommandBuilder()
+  .setName("infractions")
+  .setDescription("Browse a member's moderation history")
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("user")
+      .setDescription("List the infractions of a user")
+      .addUserOption((option) =>
+        option.setName("target").setDescription("The user to look up").setRequired(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("type")
+          .setDescription("Only show infractions of this type")
+          .setRequired(false)
+          .addChoices(...typeChoices)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("case")
+      .setDescription("Look up a single infraction")
+      .addIntegerOption((option) =>
+        option
+          .setName("number")
+          .setDescription("The case number")
+          .setRequired(true)
+          .setMinValue(1)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("search")
+      .setDescription("Find infractions by words in their reason or evidence")
+      .addStringOption((option) =>
+        option
+          .setName("query")
+          .setDescription("Words to look for, e.g. \"alt account\"")
+          .setRequired(true)
+          .setMaxLength(MAX_SEARCH_QUERY_LENGTH)
+      )
+      .addUserOption((option) =>
+        option
+          .setName("moderator")
+          .setDescription("Only show infractions issued by this moderator")
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("type")
+          .setDescription("Only show infractions of this type")
+          .setRequired(false)
+          .addChoices(...typeChoices)
+      )
+      .addStringOption((option) =>
+        option.setName("from").setDescription("Earliest date, as YYYY-MM-DD").setRequired(false)
+      )
+      .addStringOption((option) =>
+        option.setName("to").setDescription("Latest date, as YYYY-MM-DD").setRequired(false)
+      )
+  );
+
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+  try {
+    switch (interaction.options.getSubcommand()) {
+      case "user":
+        return await showUserInfractions(interaction);
+      case "case":
+        return await showInfraction(interaction);
+      case "search":
+        return await searchInfractions(interaction);
+    }
+  } catch (error) {
+    console.error("Error executing infractions command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+async function showUserInfractions(interaction: ChatInputCommandInteraction): Promise<void> {
+  const targetUser = interaction.options.getUser("target", true);
+  const type = interaction.options.getString("type") as InfractionType | null;
+
+  const page = buildHistoryPage(targetUser, interaction.guildId!, type, 0);
+  await interaction.reply({ ...page, ephemeral: true });
+}
+
+async function showInfraction(interaction: ChatInputCommandInteraction): Promise<void> {
+  const caseNumber = interaction.options.getInteger("number", true);
+  const infraction = database.getInfractionByCase(interaction.guildId!, caseNumber);
+
+  if (!infraction) {
+    return await sendErrorResponse(interaction, `Case #${caseNumber} was not found.`);
+  }
+
+  await interaction.reply({ embeds: [createInfractionEmbed(infraction)], ephemeral: true });
+}
+
+async function searchInfractions(interaction: ChatInputCommandInteraction): Promise<void> {
+  const query = interaction.options.getString("query", true).trim();
+  const fromInput = interaction.options.getString("from");
+  const toInput = interaction.options.getString("to");
+
+  const since = fromInput ? parseSearchDate(fromInput) : undefined;
+  const to = toInput ? parseSearchDate(toInput) : undefined;
+  if (since === null || to === null) {
+    return await sendErrorResponse(interaction, "Dates must be written as YYYY-MM-DD.");
+  }
+
+  const until = to ? endOfSearchDay(to) : undefined;
+  if (since && until && since >= until) {
+    return await sendErrorResponse(interaction, "The `from` date must be before the `to` date.");
+  }
+
+  const page = buildSearchPage(
+    interaction.guildId!,
+    {
+      query,
+      filters: {
+        moderatorId: interaction.options.getUser("moderator")?.id,
+        type: (interaction.options.getString("type") as InfractionType | null) ?? undefined,
+        since,
+        until,
+      },
+    },
+    0
+  );
+  await interaction.reply({ ...page, ephemeral: true });
+}
+
+export default { data, execute, moderatorOnly: true, guildOnly: true } satisfies Command;
@@ -0,0 +1,83 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, PermissionFlagsBits } from "discord.js";
+import database, { InfractionType } from "../../database/database";
+import type { Command, CommandContext } from "../../events/interactionCreate";
+import { logPunishment, sendPunishmentMessageToUser } from "../../utils/moderation";
+import { sendErrorResponse } from "../../utils/responses";
+
+const data = new SlashCommandBuilder()
+  .setName("kick")
+  .setDescription("Kick a user from the server")
+  .addUserOption((option) =>
+    option.setName("target").setDescription("The user to kick").setRequired(true)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("reason")
+      .setDescription("The reason for the kick")
+      .setRequired(true)
+      .setMaxLength(512)
+  );
+
+async function execute(
+  interaction: ChatInputCommandInteraction<"cached">,
+  { target }: CommandContext
+): Promise<void> {
+  try {
+    const member = interaction.member;
+    const targetUser = interaction.options.getUser("target", true);
+    const reason = interaction.options.getString("reason", true);
+    const targetMember = target!;
+
+    if (!targetMember.kickable) {
+      return await sendErrorResponse(interaction, `I cannot kick ${targetUser.tag}.`);
+    }
+
+    // Record first so the DM can reference the case number; the DM has to
+    // go out before the kick while we still share a server with the user.
+    const infraction = database.addInfraction(
+      targetUser.id,
+      interaction.guild.id,
+      interaction.user.id,
+      InfractionType.KICK,
+      reason
+    );
+    const details = {
+      type: InfractionType.KICK,
+      reason,
+      moderator: member.user.tag,
+      infraction,
+    };
+
+    const dmStatus = await sendPunishmentMessageToUser(targetUser, interaction.guild, details);
+    try {
+      await targetMember.kick(`${member.user.tag}: ${reason}`);
+    } catch (error) {
+      database.revokeInfraction(
+        interaction.guild.id,
+        infraction.id,
+        interaction.client.user.id,
+        "Kick could not be applied"
+      );
+      throw error;
+    }
+
+    await interaction.reply({
+      content: `Successfully kicked ${targetUser.tag}\nReason: ${reason}`,
+      ephemeral: false,
+    });
+    await logPunishment(interaction.guild, targetUser, { ...details, dmStatus });
+  } catch (error) {
+    console.error("Error executing kick command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+export default {
+  data,
+  execute,
+  moderatorOnly: true,
+  guildOnly: true,
+  botPermissions: PermissionFlagsBits.KickMembers,
+  hierarchyTarget: { option: "target", verb: "kick" },
+  cooldown: { seconds: 5 },
+} satisfies Command;
@@ -0,0 +1,170 @@
+import {
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  User,
+} from "discord.js";
+import database, { DailyCount, InfractionType } from "../../database/database";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+const MAX_MODERATORS_SHOWN = 10;
+
+const data = new SlashCommandBuilder()
+  .setName("modstats")
+  .setDescription("Moderation activity for this server or a single moderator")
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .addIntegerOption((option) =>
+    option
+      .setName("period")
+      .setDescription("How far back to look (default 30 days)")
+      .setRequired(false)
+      .addChoices(
+        { name: "7 days", value: 7 },
+        { name: "30 days", value: 30 },
+        { name: "90 days", value: 90 }
+      )
+  )
+  .addUserOption((option) =>
+    option
+      .setName("moderator")
+      .setDescription("Only show actions taken by this moderator")
+      .setRequired(false)
+  );
+
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+  try {
+    const days = interaction.options.getInteger("period") ?? 30;
+    const moderator = interaction.options.getUser("moderator");
+    const since = startOfUtcDay(new Date(Date.now() - (days - 1) * DAY_MS));
+
+    const embed = moderator
+      ? buildModeratorStats(interaction.guild.id, moderator, since, days)
+      : buildGuildStats(interaction.guild.id, interaction.guild.name, since, days);
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+  } catch (error) {
+    console.error("Error executing modstats command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+function buildGuildStats(guildId: string, guildName: string, since: Date, days: number): EmbedBuilder {
+  const typeCounts = database.getTypeCounts(guildId, since);
+  const total = sum(Object.values(typeCounts));
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Moderation Stats — ${guildName}`)
+    .setDescription(`Last ${days} days • ${total} infraction(s)`)
+    .setColor(0x0099ff)
+    .setTimestamp()
+    .addFields({ name: "By Type", value: formatTypeCounts(typeCounts), inline: false });
+
+  const perModerator = new Map<string, Partial<Record<InfractionType, number>>>();
+  for (const row of database.getModeratorTypeCounts(guildId, since)) {
+    perModerator.set(row.moderatorId, { ...perModerator.get(row.moderatorId), [row.type]: row.count });
+  }
+
+  const moderators = [...perModerator.entries()]
+    .map(([moderatorId, counts]) => ({ moderatorId, counts, total: sum(Object.values(counts)) }))
+    .sort((a, b) => b.total - a.total);
+
+  embed.addFields({
+    name: "By Moderator",
+    value:
+      moderators.length === 0
+        ? "No activity."
+        : moderators
+            .slice(0, MAX_MODERATORS_SHOWN)
+            .map(
+              (entry) =>
+                `<@${entry.moderatorId}> — **${entry.total}** (${Object.entries(entry.counts)
+                  .map(([type, count]) => `${type} ${count}`)
+                  .join(", ")})`
+            )
+            .join("\n"),
+    inline: false,
+  });
+
+  const offenders = database.getTopOffenders(guildId, since);
+  embed.addFields({
+    name: "Top Offenders",
+    value:
+      offenders.length === 0
+        ? "None."
+        : offenders
+            .map(
+              (offender, index) =>
+                `**${index + 1}.** <@${offender.userId}> — ${offender.count} infraction(s), ${offender.points} point(s)`
+            )
+            .join("\n"),
+    inline: false,
+  });
+
+  embed.addFields({
+    name: "Daily Trend",
+    value: formatTrend(database.getDailyCounts(guildId, since), since, days),
+    inline: false,
+  });
+
+  return embed;
+}
+
+function buildModeratorStats(guildId: string, moderator: User, since: Date, days: number): EmbedBuilder {
+  const typeCounts = database.getTypeCounts(guildId, since, moderator.id);
+  const total = sum(Object.values(typeCounts));
+
+  return new EmbedBuilder()
+    .setTitle(`Moderation Stats — ${moderator.tag}`)
+    .setDescription(`Last ${days} days • ${total} infraction(s) issued`)
+    .setThumbnail(moderator.displayAvatarURL())
+    .setColor(0x0099ff)
+    .setTimestamp()
+    .addFields(
+      { name: "By Type", value: formatTypeCounts(typeCounts), inline: false },
+      {
+        name: "Daily Trend",
+        value: formatTrend(database.getDailyCounts(guildId, since, moderator.id), since, days),
+        inline: false,
+      }
+    );
+}
+
+function formatTypeCounts(counts: Record<InfractionType, number>): string {
+  return Object.values(InfractionType)
+    .map((type) => `**${type}:** ${counts[type]}`)
+    .join(" • ");
+}
+
+/** Renders one sparkline character per day, oldest first, plus the busiest day. */
+function formatTrend(dailyCounts: DailyCount[], since: Date, days: number): string {
+  const byDay = new Map(dailyCounts.map((entry) => [entry.day, entry.count]));
+  const series = Array.from({ length: days }, (_, index) =>
+    byDay.get(new Date(since.getTime() + index * DAY_MS).toISOString().slice(0, 10)) ?? 0
+  );
+
+  const max = Math.max(...series);
+  if (max === 0) return "No activity.";
+
+  const sparkline = series
+    .map((count) =>
+      count === 0 ? SPARK_CHARS[0] : SPARK_CHARS[Math.ceil((count / max) * (SPARK_CHARS.length - 1))]
+    )
+    .join("");
+  const busiest = dailyCounts.reduce((best, entry) => (entry.count > best.count ? entry : best));
+
+  return `\`${sparkline}\`\nBusiest day: ${busiest.day} (${busiest.count})`;
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function sum(values: (number | undefined)[]): number {
+  return values.reduce<number>((total, value) => total + (value ?? 0), 0);
+}
+
+export default { data, execute, guildOnly: true } satisfies Command;
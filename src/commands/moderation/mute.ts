@@ -0,0 +1,107 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, PermissionFlagsBits } from "discord.js";
+import database, { InfractionType } from "../../database/database";
+import type { Command, CommandContext } from "../../events/interactionCreate";
+import { getMutedRole, logPunishment, sendPunishmentMessageToUser } from "../../utils/moderation";
+import { formatDuration, parseDuration } from "../../utils/duration";
+import { sendErrorResponse } from "../../utils/responses";
+
+const data = new SlashCommandBuilder()
+  .setName("mute")
+  .setDescription("Mute a user by giving them the muted role")
+  .addUserOption((option) =>
+    option.setName("target").setDescription("The user to mute").setRequired(true)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("reason")
+      .setDescription("The reason for the mute")
+      .setRequired(true)
+      .setMaxLength(512)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("duration")
+      .setDescription("Lift the mute automatically after this long, e.g. 1h, 7d (permanent if empty)")
+      .setRequired(false)
+  );
+
+async function execute(
+  interaction: ChatInputCommandInteraction<"cached">,
+  { target }: CommandContext
+): Promise<void> {
+  try {
+    const member = interaction.member;
+    const targetMember = target!;
+    const targetUser = interaction.options.getUser("target", true);
+    const reason = interaction.options.getString("reason", true);
+    const durationInput = interaction.options.getString("duration");
+    const durationMs = durationInput ? parseDuration(durationInput) : null;
+
+    if (durationInput && !durationMs) {
+      return await sendErrorResponse(
+        interaction,
+        "Please provide a valid duration, e.g. `30m`, `12h` or `7d`."
+      );
+    }
+
+    const mutedRole = getMutedRole(interaction.guild);
+    if (!mutedRole) {
+      return await sendErrorResponse(
+        interaction,
+        "This server has no muted role configured. Please ask an administrator to set one with `/config set`."
+      );
+    }
+
+    if (interaction.guild.members.me!.roles.highest.position <= mutedRole.position) {
+      return await sendErrorResponse(
+        interaction,
+        `I can't assign the ${mutedRole} role. Please make sure I have 'Manage Roles' and that my role is above it.`
+      );
+    }
+
+    if (targetMember.roles.cache.has(mutedRole.id)) {
+      return await sendErrorResponse(interaction, `${targetUser.tag} is already muted.`);
+    }
+
+    await targetMember.roles.add(mutedRole, `${member.user.tag}: ${reason}`);
+
+    const infraction = database.addInfraction(
+      targetUser.id,
+      interaction.guild.id,
+      interaction.user.id,
+      InfractionType.MUTE,
+      reason,
+      { expiresAt: durationMs ? new Date(Date.now() + durationMs) : undefined }
+    );
+    const details = {
+      type: InfractionType.MUTE,
+      reason,
+      moderator: member.user.tag,
+      infraction,
+      duration: durationMs ? formatDuration(durationMs) : undefined,
+    };
+
+    await interaction.reply({
+      content: `Successfully muted ${targetUser.tag}${
+        details.duration ? ` for ${details.duration}` : ""
+      }\nReason: ${reason}`,
+      ephemeral: false,
+    });
+    // DM first so the log can show whether the user was reached
+    const dmStatus = await sendPunishmentMessageToUser(targetUser, interaction.guild, details);
+    await logPunishment(interaction.guild, targetUser, { ...details, dmStatus });
+  } catch (error) {
+    console.error("Error executing mute command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+export default {
+  data,
+  execute,
+  moderatorOnly: true,
+  guildOnly: true,
+  botPermissions: PermissionFlagsBits.ManageRoles,
+  hierarchyTarget: { option: "target", verb: "mute" },
+  cooldown: { seconds: 5 },
+} satisfies Command;
@@ -0,0 +1,142 @@
+import {
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  EmbedBuilder,
+} from "discord.js";
+import database from "../../database/database";
+import { formatNote } from "../../utils/infractionHistory";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+const MAX_NOTE_LENGTH = 1000;
+
+const data = new SlashCommandBuilder()
+  .setName("note")
+  .setDescription("Private staff notes about a member")
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("add")
+      .setDescription("Add a note to a member (they are never told)")
+      .addUserOption((option) =>
+        option.setName("target").setDescription("The member the note is about").setRequired(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("content")
+          .setDescription("The note")
+          .setRequired(true)
+          .setMaxLength(MAX_NOTE_LENGTH)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("list")
+      .setDescription("Show the notes on a member")
+      .addUserOption((option) =>
+        option.setName("target").setDescription("The member to look up").setRequired(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("edit")
+      .setDescription("Change the text of a note")
+      .addIntegerOption((option) =>
+        option.setName("id").setDescription("The note number").setRequired(true).setMinValue(1)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("content")
+          .setDescription("The new text")
+          .setRequired(true)
+          .setMaxLength(MAX_NOTE_LENGTH)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("remove")
+      .setDescription("Delete a note")
+      .addIntegerOption((option) =>
+        option.setName("id").setDescription("The note number").setRequired(true).setMinValue(1)
+      )
+  );
+
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+  try {
+    switch (interaction.options.getSubcommand()) {
+      case "add":
+        return await addNote(interaction);
+      case "list":
+        return await listNotes(interaction);
+      case "edit":
+        return await editNote(interaction);
+      case "remove":
+        return await removeNote(interaction);
+    }
+  } catch (error) {
+    console.error("Error executing note command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+async function addNote(interaction: ChatInputCommandInteraction): Promise<void> {
+  const targetUser = interaction.options.getUser("target", true);
+  const content = interaction.options.getString("content", true);
+
+  const id = database.addNote(interaction.guildId!, targetUser.id, interaction.user.id, content);
+  await interaction.reply({
+    content: `Added note #${id} to ${targetUser.tag}.`,
+    ephemeral: true,
+  });
+}
+
+async function listNotes(interaction: ChatInputCommandInteraction): Promise<void> {
+  const targetUser = interaction.options.getUser("target", true);
+  const notes = database.getUserNotes(interaction.guildId!, targetUser.id);
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Notes on ${targetUser.tag}`)
+    .setThumbnail(targetUser.displayAvatarURL())
+    .setColor(0x0099ff)
+    .setTimestamp()
+    .setFooter({ text: `${notes.length} note(s) • Only visible to staff` });
+
+  if (notes.length === 0) {
+    embed.setDescription("No notes on record.");
+  } else {
+    // Keep within the embed description limit, newest first
+    const lines: string[] = [];
+    let length = 0;
+    for (const note of notes) {
+      const line = formatNote(note);
+      if (length + line.length + 1 > 4000) break;
+      lines.push(line);
+      length += line.length + 1;
+    }
+    embed.setDescription(lines.join("\n"));
+  }
+
+  await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+async function editNote(interaction: ChatInputCommandInteraction): Promise<void> {
+  const id = interaction.options.getInteger("id", true);
+  const content = interaction.options.getString("content", true);
+
+  if (!database.updateNote(interaction.guildId!, id, content)) {
+    return await sendErrorResponse(interaction, `Note #${id} was not found.`);
+  }
+
+  await interaction.reply({ content: `Updated note #${id}.`, ephemeral: true });
+}
+
+async function removeNote(interaction: ChatInputCommandInteraction): Promise<void> {
+  const id = interaction.options.getInteger("id", true);
+
+  if (!database.removeNote(interaction.guildId!, id)) {
+    return await sendErrorResponse(interaction, `Note #${id} was not found.`);
+  }
+
+  await interaction.reply({ content: `Removed note #${id}.`, ephemeral: true });
+}
+
+export default { data, execute, moderatorOnly: true, guildOnly: true } satisfies Command;
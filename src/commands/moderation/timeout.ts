@@ -0,0 +1,91 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, PermissionFlagsBits } from "discord.js";
+import database, { InfractionType } from "../../database/database";
+import type { Command, CommandContext } from "../../events/interactionCreate";
+import { logPunishment, sendPunishmentMessageToUser } from "../../utils/moderation";
+import { formatDuration, parseDuration } from "../../utils/duration";
+import { sendErrorResponse } from "../../utils/responses";
+import { MAX_TIMEOUT_MS } from "../../services/escalation";
+
+const data = new SlashCommandBuilder()
+  .setName("timeout")
+  .setDescription("Time out a user for a set duration")
+  .addUserOption((option) =>
+    option.setName("target").setDescription("The user to time out").setRequired(true)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("duration")
+      .setDescription("How long the timeout lasts, e.g. 10m, 1h, 7d (max 28d)")
+      .setRequired(true)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("reason")
+      .setDescription("The reason for the timeout")
+      .setRequired(true)
+      .setMaxLength(512)
+  );
+
+async function execute(
+  interaction: ChatInputCommandInteraction<"cached">,
+  { target }: CommandContext
+): Promise<void> {
+  try {
+    const member = interaction.member;
+    const targetMember = target!;
+    const targetUser = interaction.options.getUser("target", true);
+    const reason = interaction.options.getString("reason", true);
+    const durationMs = parseDuration(interaction.options.getString("duration", true));
+
+    if (!durationMs || durationMs > MAX_TIMEOUT_MS) {
+      return await sendErrorResponse(
+        interaction,
+        "Please provide a valid duration between 1s and 28d, e.g. `10m`, `1h30m` or `7d`."
+      );
+    }
+
+    if (!targetMember.moderatable) {
+      return await sendErrorResponse(interaction, `I cannot time out ${targetUser.tag}.`);
+    }
+
+    await targetMember.timeout(durationMs, `${member.user.tag}: ${reason}`);
+
+    const duration = formatDuration(durationMs);
+    const infraction = database.addInfraction(
+      targetUser.id,
+      interaction.guild.id,
+      interaction.user.id,
+      InfractionType.TIMEOUT,
+      reason,
+      { expiresAt: new Date(Date.now() + durationMs) }
+    );
+    const details = {
+      type: InfractionType.TIMEOUT,
+      reason,
+      moderator: member.user.tag,
+      infraction,
+      duration,
+    };
+
+    await interaction.reply({
+      content: `Successfully timed out ${targetUser.tag} for ${duration}\nReason: ${reason}`,
+      ephemeral: false,
+    });
+    // DM first so the log can show whether the user was reached
+    const dmStatus = await sendPunishmentMessageToUser(targetUser, interaction.guild, details);
+    await logPunishment(interaction.guild, targetUser, { ...details, dmStatus });
+  } catch (error) {
+    console.error("Error executing timeout command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+export default {
+  data,
+  execute,
+  moderatorOnly: true,
+  guildOnly: true,
+  botPermissions: PermissionFlagsBits.ModerateMembers,
+  hierarchyTarget: { option: "target", verb: "time out" },
+  cooldown: { seconds: 5 },
+} satisfies Command;
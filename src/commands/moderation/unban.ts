@@ -0,0 +1,75 @@
+import {
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  PermissionFlagsBits,
+} from "discord.js";
+import database, { InfractionType, ModLogEvent } from "../../database/database";
+import { sendModLog } from "../../services/modLog";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command } from "../../events/interactionCreate";
+
+const data = new SlashCommandBuilder()
+  .setName("unban")
+  .setDescription("Lift a user's ban from the server")
+  .addUserOption((option) =>
+    option
+      .setName("target")
+      .setDescription("The user (or user ID) to unban")
+      .setRequired(true)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("reason")
+      .setDescription("The reason for lifting the ban")
+      .setRequired(true)
+      .setMaxLength(512)
+  );
+
+async function execute(interaction: ChatInputCommandInteraction<"cached">): Promise<void> {
+  try {
+    const member = interaction.member;
+    const targetUser = interaction.options.getUser("target", true);
+    const reason = interaction.options.getString("reason", true);
+
+    const existingBan = await interaction.guild.bans.fetch(targetUser.id).catch(() => null);
+    if (!existingBan) {
+      return await sendErrorResponse(interaction, `${targetUser.tag} is not banned.`);
+    }
+
+    await interaction.guild.members.unban(targetUser.id, `${member.user.tag}: ${reason}`);
+    // The ban is gone, so its case must not try to lift it again later
+    database.expireActivePunishments(
+      interaction.guild.id,
+      targetUser.id,
+      InfractionType.BAN,
+      interaction.user.id,
+      `Unbanned by ${member.user.tag}: ${reason}`
+    );
+
+    await interaction.reply({
+      content: `Successfully unbanned ${targetUser.tag}\nReason: ${reason}`,
+      ephemeral: false,
+    });
+
+    await sendModLog(interaction.guild, {
+      event: ModLogEvent.PUNISHMENT,
+      title: "User Unbanned",
+      color: 0x00ff00,
+      description: `Reason: ${reason}`,
+      user: { id: targetUser.id, tag: targetUser.tag },
+      moderator: member.user.tag,
+      summary: `🔓 User unbanned by ${member.user.tag}: ${targetUser.tag} (Reason: ${reason})`,
+    });
+  } catch (error) {
+    console.error("Error executing unban command:", error);
+    await sendErrorResponse(interaction, "An error occurred while executing the command.");
+  }
+}
+
+export default {
+  data,
+  execute,
+  moderatorOnly: true,
+  guildOnly: true,
+  botPermissions: PermissionFlagsBits.BanMembers,
+} satisfies Command;
@@ -4,7 +4,27 @@ import {
   EmbedBuilder,
   GuildMember,
 } from "discord.js";
-import database, { InfractionType } from "../../database/database";
+import database, {
+  DEFAULT_INFRACTION_POINTS,
+  DmStatus,
+  EvidenceInput,
+  Infraction,
+  InfractionType,
+  ModLogEvent,
+} from "../../database/database";
+import {
+  DEFAULT_APPEAL_TEXT,
+  formatDmStatus,
+  getDmFailureStatus,
+  recordDmStatus,
+} from "../../utils/moderation";
+import { sendModLog } from "../../services/modLog";
+import { evaluateEscalation } from "../../services/escalation";
+import { createAppealButtonRow } from "../../services/appeals";
+import { archiveEvidence, collectEvidence, formatEvidenceLinks } from "../../services/evidence";
+import { formatCase } from "../../utils/cases";
+import { sendErrorResponse } from "../../utils/responses";
+import type { Command, CommandContext } from "../../events/interactionCreate";
 
 interface WarnResult {
   success: boolean;
@@ -12,9 +32,11 @@ interface WarnResult {
   targetUser?: string;
   moderator?: string;
   reason?: string;
-  infractionId?: string;
+  infraction?: Infraction;
   errorReason?: string;
-  evidence?: { url: string };
+  evidence?: EvidenceInput[];
+  points?: number;
+  dmStatus?: DmStatus;
 }
 
 const data = new SlashCommandBuilder()
@@ -24,29 +46,51 @@ const data = new SlashCommandBuilder()
     option.setName("target").setDescription("The user to warn").setRequired(true)
   )
   .addStringOption((option) =>
-    option.setName("reason").setDescription("The reason for the warning").setRequired(true)
+    option
+      .setName("reason")
+      .setDescription("The reason for the warning")
+      .setRequired(true)
+      .setMaxLength(512)
   )
   .addStringOption((option) =>
     option
       .setName("evidence")
       .setDescription("Evidence URL link for the warning")
       .setRequired(false)
+      .setMaxLength(512)
+  )
+  .addAttachmentOption((option) =>
+    option
+      .setName("attachment")
+      .setDescription("Screenshot or file supporting the warning")
+      .setRequired(false)
+  )
+  .addAttachmentOption((option) =>
+    option
+      .setName("attachment-2")
+      .setDescription("An additional screenshot or file")
+      .setRequired(false)
+  )
+  .addIntegerOption((option) =>
+    option
+      .setName("points")
+      .setDescription(
+        `Severity points for this warning (default ${DEFAULT_INFRACTION_POINTS[InfractionType.WARN]})`
+      )
+      .setRequired(false)
+      .setMinValue(0)
+      .setMaxValue(100)
   );
 
-async function execute(interaction: ChatInputCommandInteraction): Promise<void> {
+async function execute(
+  interaction: ChatInputCommandInteraction<"cached">,
+  { target }: CommandContext
+): Promise<void> {
   try {
-    if (!interaction.guild) {
-      return await sendErrorResponse(interaction, "This command can only be used in a server.");
-    }
-
-    const member = interaction.member as GuildMember;
+    const member = interaction.member;
     const targetUser = interaction.options.getUser("target");
     const reason = interaction.options.getString("reason");
 
-    if (!member) {
-      return await sendErrorResponse(interaction, "Issue getting the sending member.");
-    }
-
     if (!targetUser) {
       return await sendErrorResponse(interaction, "Please specify a user to warn.");
     }
@@ -55,47 +99,25 @@ async function execute(interaction: ChatInputCommandInteraction): Promise<void>
       return await sendErrorResponse(interaction, "Please input a reason for the warning.");
     }
 
-    const allowedRoles = [
-      "Community Moderator",
-      "Trial Community Moderator",
-      "Trial VC Moderator",
-      "VC Moderator",
-      "Community Manager",
-      "Administrator",
-    ];
-    const hasAllowedRole = member.roles.cache.some((role) =>
-      allowedRoles.some((allowedRole) =>
-        role.name.toLowerCase().includes(allowedRole.toLowerCase())
-      )
-    );
+    const targetMember = target!;
 
-    if (!hasAllowedRole) {
-      return await sendErrorResponse(interaction, "You don't have permission to warn users.");
+    const { evidence, error: evidenceError } = collectEvidence(interaction, "evidence", [
+      "attachment",
+      "attachment-2",
+    ]);
+    if (evidenceError) {
+      return await sendErrorResponse(interaction, evidenceError);
     }
 
-    const targetMember = await interaction.guild.members.fetch(targetUser.id).catch(() => null);
-    if (!targetMember) {
-      return await sendErrorResponse(interaction, "Could not find that user in this server.");
-    }
-
-    if (!targetMember.manageable) {
-      return await sendErrorResponse(
-        interaction,
-        `I cannot warn ${targetUser.tag} due to role hierarchy. Their highest role is equal to or higher than mine.`
-      );
-    }
-
-    if (
-      member.roles.highest.position <= targetMember.roles.highest.position &&
-      member.id !== interaction.guild.ownerId
-    ) {
-      return await sendErrorResponse(
-        interaction,
-        "You cannot warn someone with an equal or higher role."
-      );
-    }
-    const evidence = interaction.options.getString("evidence") || undefined;
-    const result = await warnUser(targetMember, reason, member.user.tag, interaction, evidence);
+    const points = interaction.options.getInteger("points") ?? undefined;
+    const result = await warnUser(
+      targetMember,
+      reason,
+      member.user.tag,
+      interaction,
+      evidence,
+      points
+    );
 
     if (result.success) {
       await interaction.reply({
@@ -103,14 +125,28 @@ async function execute(interaction: ChatInputCommandInteraction): Promise<void>
         ephemeral: false,
       });
 
-      await sendToLoggingChannel(interaction, result);
-      await sendWarnMessageToUser(
+      // DM first so the log can show whether the user was reached
+      const dmStatus = await sendWarnMessageToUser(
         targetMember,
         reason,
         member.user.tag,
         interaction,
-        result.infractionId
+        result.infraction,
+        evidence
       );
+      await sendToLoggingChannel(interaction, { ...result, dmStatus });
+      await archiveEvidence(interaction.guild, result.infraction!);
+
+      const escalation = await evaluateEscalation(targetMember, result.infraction!);
+      if (escalation) {
+        await interaction.followUp({
+          content: `Automatic escalation: ${escalation.rule.threshold} warnings within ${
+            escalation.rule.windowDays
+          } days → ${escalation.rule.action}${
+            escalation.duration ? ` (${escalation.duration})` : ""
+          }. ${formatCase(escalation.infraction)}`,
+        });
+      }
     } else {
       await sendErrorResponse(interaction, result.errorReason || "Failed to warn user.");
     }
@@ -125,7 +161,8 @@ async function warnUser(
   reason: string,
   moderator: string,
   interaction: ChatInputCommandInteraction,
-  evidence?: string
+  evidence: EvidenceInput[],
+  points?: number
 ): Promise<WarnResult> {
   try {
     if (!interaction.guild) {
@@ -136,11 +173,12 @@ async function warnUser(
       };
     }
 
-    const infractionId = database.addWarning(
+    const infraction = database.addWarning(
       targetMember.user.id,
       interaction.guild.id,
       interaction.user.id,
-      reason
+      reason,
+      { evidence, points }
     );
 
     return {
@@ -149,8 +187,9 @@ async function warnUser(
       targetUser: targetMember.user.tag,
       moderator,
       reason,
-      infractionId,
-      evidence: evidence ? { url: evidence } : undefined,
+      infraction,
+      evidence,
+      points: points ?? DEFAULT_INFRACTION_POINTS[InfractionType.WARN],
     };
   } catch (error) {
     console.error("Error warning user:", error);
@@ -166,64 +205,35 @@ async function sendToLoggingChannel(
   interaction: ChatInputCommandInteraction,
   result: WarnResult
 ): Promise<void> {
-  try {
-    if (!interaction.guild) return;
-
-    const logChannelNames = [
-      "logs",
-      "mod-logs",
-      "moderation-logs",
-      "audit-logs",
-      "staff-logs",
-      "mod-log",
-    ];
-    let logChannel = null;
-
-    for (const channelName of logChannelNames) {
-      logChannel = interaction.guild.channels.cache.find(
-        (channel) => channel.name === channelName && channel.isTextBased()
-      );
-      if (logChannel) break;
-    }
-
-    if (logChannel && logChannel.isTextBased()) {
-      const logEmbed = new EmbedBuilder()
-        .setTitle("User Warned")
-        .setDescription(`Reason: ${result.reason}`)
-        .addFields(
-          { name: "User", value: result.targetUser ?? result.user ?? "-", inline: true },
-          { name: "Moderator", value: result.moderator ?? "-", inline: true }
-        )
-        .setColor(0xffcc00)
-        .setTimestamp()
-        .setFooter({
-          text: `Infraction ID ${result.infractionId}`,
-        });
+  if (!interaction.guild) return;
 
-      if (result.evidence) {
-        logEmbed.addFields({
-          name: "Evidence",
-          value: `[View Evidence](${result.evidence.url})`,
-          inline: false,
-        });
-      }
-
-      await logChannel.send({ embeds: [logEmbed] });
-    } else {
-      console.log(
-        `🔺 User warned by ${result.moderator}: ${result.targetUser ?? result.user} (Reason: ${
-          result.reason
-        })`
-      );
-    }
-  } catch (error) {
-    console.error("Failed to send to logging channel:", error);
-    console.log(
-      `🔺 User warned by ${result.moderator}: ${result.targetUser ?? result.user} (Reason: ${
-        result.reason
-      })`
-    );
+  const fields = [
+    { name: "Points", value: `${result.points ?? 0}`, inline: true },
+    { name: "DM", value: formatDmStatus(result.dmStatus), inline: true },
+  ];
+  if (result.evidence && result.evidence.length > 0) {
+    fields.push({
+      name: "Evidence",
+      value: formatEvidenceLinks(result.evidence),
+      inline: false,
+    });
   }
+
+  await sendModLog(interaction.guild, {
+    event: ModLogEvent.PUNISHMENT,
+    title: "User Warned",
+    color: 0xffcc00,
+    description: `Reason: ${result.reason}`,
+    user: result.infraction
+      ? { id: result.infraction.userId, tag: result.targetUser ?? result.user }
+      : undefined,
+    moderator: result.moderator ?? "-",
+    fields,
+    footer: result.infraction ? formatCase(result.infraction) : "Case unknown",
+    summary: `🔺 User warned by ${result.moderator}: ${result.targetUser ?? result.user} (Reason: ${
+      result.reason
+    })`,
+  });
 }
 
 async function sendWarnMessageToUser(
@@ -231,16 +241,21 @@ async function sendWarnMessageToUser(
   reason: string,
   moderator: string,
   interaction: ChatInputCommandInteraction,
-  infractionId?: string
-): Promise<void> {
+  infraction?: Infraction,
+  evidence: EvidenceInput[] = []
+): Promise<DmStatus | undefined> {
+  const settings = database.getGuildSettings(targetMember.guild.id);
+  if (!settings.dmUsers) return undefined;
+
+  let status: DmStatus | undefined;
   try {
     const warnEmbed = new EmbedBuilder()
       .setTitle(`Official Warning in ${interaction.guild?.name}`)
       .setDescription(`${reason}`)
       .addFields(
         {
-          name: "Infraction ID",
-          value: infractionId ? `${infractionId}` : "Unknown",
+          name: "Case",
+          value: infraction ? `#${infraction.caseNumber}` : "Unknown",
           inline: true,
         },
         { name: "Issued by", value: moderator, inline: false },
@@ -254,26 +269,25 @@ async function sendWarnMessageToUser(
         iconURL: interaction.guild?.iconURL() || undefined,
       });
 
-    const evidence = interaction.options.getString("evidence");
-    if (evidence) {
+    if (evidence.length > 0) {
       warnEmbed.addFields({
         name: "Evidence",
-        value: `[View Evidence](${evidence})`,
+        value: formatEvidenceLinks(evidence),
         inline: false,
       });
     }
 
     await targetMember.send({ embeds: [warnEmbed] });
+    status = DmStatus.DELIVERED;
 
     const appealEmbed = new EmbedBuilder()
       .setTitle("Appeal Information")
-      .setDescription(
-        "If you believe this warning was issued in error, you can appeal it by making a ticket."
-      )
+      .setDescription(settings.appealText ?? DEFAULT_APPEAL_TEXT)
       .addFields(
         {
           name: "How to Appeal",
-          value: "Contact a server administrator or moderator to discuss your warning.",
+          value:
+            "Press **Appeal** below and explain why the warning should be revoked. You'll get a message once staff have reviewed it.",
           inline: false,
         },
         {
@@ -286,31 +300,32 @@ async function sendWarnMessageToUser(
       .setColor(0x0099ff)
       .setFooter({ text: "Appeals are reviewed on a case-by-case basis" });
 
-    await targetMember.send({ embeds: [appealEmbed] });
+    await targetMember.send({
+      embeds: [appealEmbed],
+      components: infraction
+        ? [createAppealButtonRow(targetMember.guild.id, infraction.id)]
+        : [],
+    });
   } catch (error) {
     console.error("Failed to send warning message to user:", error);
+    // The warning itself still counts as delivered if only the appeal info failed
+    status ??= getDmFailureStatus(error);
   }
-}
 
-async function sendErrorResponse(
-  interaction: ChatInputCommandInteraction,
-  message: string
-): Promise<void> {
-  const errorEmbed = new EmbedBuilder()
-    .setTitle("❌ Error")
-    .setDescription(message)
-    .setColor(0xff0000)
-    .setTimestamp();
-
-  try {
-    if (interaction.replied || interaction.deferred) {
-      await interaction.followUp({ embeds: [errorEmbed] });
-    } else {
-      await interaction.reply({ embeds: [errorEmbed] });
-    }
-  } catch (replyError) {
-    console.error("Failed to send error response:", replyError);
-  }
+  await recordDmStatus(
+    targetMember.user,
+    targetMember.guild,
+    { type: InfractionType.WARN, reason, infraction },
+    status
+  );
+  return status;
 }
 
-export default { data, execute };
+export default {
+  data,
+  execute,
+  moderatorOnly: true,
+  guildOnly: true,
+  hierarchyTarget: { option: "target", verb: "warn" },
+  cooldown: { seconds: 5 },
+} satisfies Command;
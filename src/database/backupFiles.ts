@@ -0,0 +1,96 @@
+import Database from 'better-sqlite3';
+import { existsSync, readdirSync, statSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { DATA_DIR } from './paths';
+
+// Kept apart from the backup scheduler so the restore script can use these
+// helpers without opening the live database.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const BACKUP_FILE_PATTERN = /^bot-\d{8}-\d{6}\.db$/;
+
+export interface BackupConfig {
+  directory: string;
+  intervalMs: number;
+  keepCount: number;
+  maxAgeMs: number;
+}
+
+export interface BackupInfo {
+  file: string;
+  path: string;
+  size: number;
+  createdAt: Date;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Reads the backup settings from the environment. An interval of 0 disables
+ * scheduled backups; `/backup now` keeps working either way.
+ */
+export function getBackupConfig(): BackupConfig {
+  return {
+    directory: process.env.BACKUP_DIR || join(DATA_DIR, 'backups'),
+    intervalMs: readNumber('BACKUP_INTERVAL_HOURS', 24) * HOUR_MS,
+    keepCount: Math.max(1, Math.floor(readNumber('BACKUP_KEEP_COUNT', 7))),
+    maxAgeMs: readNumber('BACKUP_MAX_AGE_DAYS', 30) * DAY_MS
+  };
+}
+
+export function backupFileName(date: Date): string {
+  const stamp = date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `bot-${stamp}.db`;
+}
+
+/**
+ * Opens a backup read-only and runs SQLite's integrity check against it.
+ * Returns the problems found, or an empty list when the file is sound.
+ */
+export function verifyBackup(path: string): string[] {
+  const db = new Database(path, { readonly: true, fileMustExist: true });
+  try {
+    const rows = db.pragma('integrity_check') as { integrity_check: string }[];
+    return rows.map(row => row.integrity_check).filter(result => result !== 'ok');
+  } finally {
+    db.close();
+  }
+}
+
+export function listBackups(config: BackupConfig = getBackupConfig()): BackupInfo[] {
+  if (!existsSync(config.directory)) return [];
+
+  return readdirSync(config.directory)
+    .filter(file => BACKUP_FILE_PATTERN.test(file))
+    .map(file => {
+      const path = join(config.directory, file);
+      const stats = statSync(path);
+      return { file, path, size: stats.size, createdAt: stats.mtime };
+    })
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Deletes backups beyond the configured count or age. The newest backup is
+ * always kept so rotation can never leave the directory empty.
+ */
+export function rotateBackups(config: BackupConfig = getBackupConfig(), now: Date = new Date()): BackupInfo[] {
+  const [, ...older] = listBackups(config);
+  const removed: BackupInfo[] = [];
+
+  older.forEach((backup, index) => {
+    const tooMany = index + 1 >= config.keepCount;
+    const tooOld = config.maxAgeMs > 0 && now.getTime() - backup.createdAt.getTime() > config.maxAgeMs;
+    if (tooMany || tooOld) {
+      unlinkSync(backup.path);
+      removed.push(backup);
+    }
+  });
+
+  return removed;
+}
+
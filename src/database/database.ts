@@ -1,6 +1,6 @@
 import Database from 'better-sqlite3';
-import { join } from 'path';
-import { existsSync, mkdirSync } from 'fs';
+import { DATABASE_PATH, ensureDataDir } from './paths';
+import { getSchemaVersion, runMigrations } from './migrator';
 
 
 export enum InfractionType {
@@ -11,54 +11,281 @@ export enum InfractionType {
   TIMEOUT = 'TIMEOUT'
 }
 
+// Severity points applied when a moderator doesn't override them
+export const DEFAULT_INFRACTION_POINTS: Record<InfractionType, number> = {
+  [InfractionType.WARN]: 1,
+  [InfractionType.MUTE]: 2,
+  [InfractionType.TIMEOUT]: 2,
+  [InfractionType.KICK]: 3,
+  [InfractionType.BAN]: 5
+};
+
+// Punishments that stay in force on Discord until they are lifted
+const LIFTABLE_TYPES = new Set([InfractionType.BAN, InfractionType.MUTE, InfractionType.TIMEOUT]);
+
+export enum InfractionStatus {
+  ACTIVE = 'ACTIVE',
+  REVOKED = 'REVOKED',
+  PARDONED = 'PARDONED'
+}
+
+export enum InfractionAction {
+  REVOKED = 'REVOKED',
+  PARDONED = 'PARDONED',
+  REASON_EDITED = 'REASON_EDITED',
+  EXPIRED = 'EXPIRED'
+}
+
+export enum DmStatus {
+  DELIVERED = 'DELIVERED',
+  BLOCKED = 'BLOCKED',
+  FAILED = 'FAILED'
+}
+
 export interface Infraction {
+  // Internal key used by related tables; users only ever see the case number
   id: string;
+  caseNumber: number;
   userId: string;
   guildId: string;
   moderatorId: string;
   type: InfractionType;
   reason: string;
+  status: InfractionStatus;
+  expiresAt?: Date;
+  expired: boolean;
+  parentId?: string;
+  points: number;
+  /** Unset when no DM was attempted, e.g. DMs are disabled for the guild. */
+  dmStatus?: DmStatus;
+  createdAt: Date;
+}
+
+export interface InfractionHistoryEntry {
+  id: number;
+  infractionId: string;
+  action: InfractionAction;
+  moderatorId: string;
+  reason: string;
+  oldValue?: string;
+  newValue?: string;
+  createdAt: Date;
+}
+
+export interface EvidenceInput {
+  url: string;
+  filename?: string;
+  contentType?: string;
+}
+
+export interface InfractionEvidence extends EvidenceInput {
+  id: number;
+  infractionId: string;
+  localPath?: string;
+  addedBy: string;
+  createdAt: Date;
+}
+
+export interface AddInfractionOptions {
+  evidence?: EvidenceInput[];
+  expiresAt?: Date;
+  parentId?: string;
+  points?: number;
+  // Only set when importing records that happened elsewhere
+  createdAt?: Date;
+  status?: InfractionStatus;
+}
+
+export interface UserNote {
+  id: number;
+  guildId: string;
+  userId: string;
+  authorId: string;
+  content: string;
   createdAt: Date;
+  updatedAt?: Date;
+}
+
+export interface InfractionSearchFilters {
+  moderatorId?: string;
+  type?: InfractionType;
+  since?: Date;
+  until?: Date;
+}
+
+export interface InfractionSearchPage {
+  infractions: Infraction[];
+  total: number;
+}
+
+export interface ModeratorTypeCount {
+  moderatorId: string;
+  type: InfractionType;
+  count: number;
+}
+
+export interface OffenderSummary {
+  userId: string;
+  count: number;
+  points: number;
+}
+
+export interface DailyCount {
+  day: string;
+  count: number;
+}
+
+export enum PermissionTargetType {
+  ROLE = 'ROLE',
+  USER = 'USER',
+  PERMISSION = 'PERMISSION'
+}
+
+export interface CommandPermission {
+  id: number;
+  guildId: string;
+  command: string;
+  targetType: PermissionTargetType;
+  targetId: string;
+}
+
+export enum AppealStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  DENIED = 'DENIED'
+}
+
+export interface Appeal {
+  id: number;
+  infractionId: string;
+  guildId: string;
+  userId: string;
+  content: string;
+  status: AppealStatus;
+  reviewerId?: string;
+  createdAt: Date;
+  reviewedAt?: Date;
+}
+
+export interface GuildSettings {
+  guildId: string;
+  modRoleIds: string[];
+  logChannelId?: string;
+  mutedRoleId?: string;
+  appealText?: string;
+  dmUsers: boolean;
+  pointDecayDays?: number;
+  archiveEvidence: boolean;
+  appealChannelId?: string;
+  dmFallbackChannelId?: string;
+  cooldownBypassRoleIds: string[];
+}
+
+export type GuildSettingsUpdate = Partial<Omit<GuildSettings, 'guildId'>>;
+
+export enum ModLogEvent {
+  PUNISHMENT = 'PUNISHMENT',
+  INFRACTION = 'INFRACTION',
+  EXPIRY = 'EXPIRY',
+  APPEAL = 'APPEAL',
+  NICKNAME = 'NICKNAME',
+  DATA = 'DATA'
+}
+
+export interface ModLogRoute {
+  guildId: string;
+  event: ModLogEvent;
+  channelId?: string;
+  webhookUrl?: string;
+}
+
+export interface EscalationRule {
+  id: number;
+  guildId: string;
+  threshold: number;
+  windowDays: number;
+  action: InfractionType;
+  durationMs?: number;
+}
+
+// SQLite's CURRENT_TIMESTAMP is UTC without a zone marker, so timestamps are
+// stored and read back in that same format.
+function toSqlTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function fromSqlTimestamp(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+// Quotes every word so user input is matched literally rather than parsed as
+// FTS5 query syntax. All words must appear; the last one may be a prefix.
+export function toFtsQuery(input: string): string | null {
+  const terms = input.match(/[\p{L}\p{N}_']+/gu);
+  if (!terms) return null;
+
+  return terms.map((term, index) => {
+    const quoted = `"${term.replace(/"/g, '')}"`;
+    return index === terms.length - 1 ? `${quoted}*` : quoted;
+  }).join(' ');
 }
 
 
 class DatabaseManager {
-  private db: Database.Database;
+  private connection: Database.Database | null = null;
   private readonly dbPath: string;
 
   constructor() {
-    const dataDir = join(process.cwd(), 'data');
-    if (!existsSync(dataDir)) {
-      mkdirSync(dataDir, { recursive: true });
+    this.dbPath = DATABASE_PATH;
+  }
+
+  // Opened on first use, so modules that only import the types or the
+  // command definitions (e.g. the deploy script) never touch the file
+  private get db(): Database.Database {
+    if (!this.connection) {
+      ensureDataDir();
+      this.connection = new Database(this.dbPath);
+      this.initializeTables();
     }
-    
-    this.dbPath = join(dataDir, 'bot.db');
-    this.db = new Database(this.dbPath);
-    this.initializeTables();
+    return this.connection;
   }
 
-  private initializeTables(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS user_infractions (
-        id TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        guild_id TEXT NOT NULL,
-        moderator_id TEXT NOT NULL,
-        type TEXT NOT NULL,
-        reason TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
+  /** Opens the database and applies pending migrations now instead of on first use. */
+  open(): void {
+    void this.db;
+  }
 
-      CREATE INDEX IF NOT EXISTS idx_infractions_user_guild ON user_infractions (user_id, guild_id);
-      CREATE INDEX IF NOT EXISTS idx_infractions_type ON user_infractions (type);
-      CREATE INDEX IF NOT EXISTS idx_infractions_created ON user_infractions (created_at);
-    `);
+  private initializeTables(): void {
+    const applied = runMigrations(this.db, migration =>
+      console.log(`Applied database migration ${migration.version} (${migration.name})`)
+    );
+    if (applied.length > 0) {
+      console.log(`Database schema is now at version ${getSchemaVersion(this.db)}`);
+    }
 
     this.db.pragma('journal_mode = WAL');
     this.db.pragma('synchronous = NORMAL');
     this.db.pragma('cache_size = 10000');
   }
 
+  private mapInfraction(row: any): Infraction {
+    return {
+      id: row.id,
+      caseNumber: row.case_number,
+      userId: row.user_id,
+      guildId: row.guild_id,
+      moderatorId: row.moderator_id,
+      type: row.type as InfractionType,
+      reason: row.reason,
+      status: (row.status ?? InfractionStatus.ACTIVE) as InfractionStatus,
+      expiresAt: row.expires_at ? fromSqlTimestamp(row.expires_at) : undefined,
+      expired: Boolean(row.expired),
+      parentId: row.parent_id ?? undefined,
+      points: row.points ?? 0,
+      dmStatus: row.dm_status ?? undefined,
+      createdAt: fromSqlTimestamp(row.created_at)
+    };
+  }
 
   private generateInfractionId(): string {
     // Generate a random 8-character alphanumeric ID
@@ -84,28 +311,96 @@ class DatabaseManager {
     return id;
   }
 
-  addInfraction(userId: string, guildId: string, moderatorId: string, type: InfractionType, reason: string): string {
+  addInfraction(
+    userId: string,
+    guildId: string,
+    moderatorId: string,
+    type: InfractionType,
+    reason: string,
+    options: AddInfractionOptions = {}
+  ): Infraction {
     const id = this.getUniqueInfractionId();
+    // Case numbers are allocated in the same statement so two inserts can't share one
     const stmt = this.db.prepare(`
-      INSERT INTO user_infractions (id, user_id, guild_id, moderator_id, type, reason)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO user_infractions (id, case_number, user_id, guild_id, moderator_id, type, reason, expires_at, parent_id, points, status, created_at)
+      SELECT ?, COALESCE(MAX(case_number), 0) + 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP)
+      FROM user_infractions WHERE guild_id = ?
     `);
     
-    stmt.run(id, userId, guildId, moderatorId, type, reason);
-    return id;
+    this.db.transaction(() => {
+      stmt.run(
+        id,
+        userId,
+        guildId,
+        moderatorId,
+        type,
+        reason,
+        options.expiresAt ? toSqlTimestamp(options.expiresAt) : null,
+        options.parentId ?? null,
+        options.points ?? DEFAULT_INFRACTION_POINTS[type],
+        options.status ?? InfractionStatus.ACTIVE,
+        options.createdAt ? toSqlTimestamp(options.createdAt) : null,
+        guildId
+      );
+
+      for (const evidence of options.evidence ?? []) {
+        this.addEvidence(id, evidence, moderatorId);
+      }
+
+      // A new ban, mute or timeout replaces the one in force on Discord, so the
+      // older cases must not lift it when they run out. Imports are history only.
+      const status = options.status ?? InfractionStatus.ACTIVE;
+      if (LIFTABLE_TYPES.has(type) && status === InfractionStatus.ACTIVE && !options.createdAt) {
+        const { case_number } = this.db.prepare('SELECT case_number FROM user_infractions WHERE id = ?').get(id) as any;
+        this.expireActivePunishments(guildId, userId, type, moderatorId, `Superseded by Case #${case_number}`, id);
+      }
+    })();
+    return this.getInfractionById(guildId, id)!;
+  }
+
+  addEvidence(infractionId: string, evidence: EvidenceInput, addedBy: string): number {
+    const result = this.db.prepare(`
+      INSERT INTO infraction_evidence (infraction_id, url, filename, content_type, added_by)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(infractionId, evidence.url, evidence.filename ?? null, evidence.contentType ?? null, addedBy);
+    return Number(result.lastInsertRowid);
+  }
+
+  setEvidenceLocalPath(id: number, localPath: string): void {
+    this.db.prepare('UPDATE infraction_evidence SET local_path = ? WHERE id = ?').run(localPath, id);
+  }
+
+  getInfractionEvidence(infractionId: string): InfractionEvidence[] {
+    const stmt = this.db.prepare('SELECT * FROM infraction_evidence WHERE infraction_id = ? ORDER BY id ASC');
+    const results = stmt.all(infractionId) as any[];
+
+    return results.map(row => ({
+      id: row.id,
+      infractionId: row.infraction_id,
+      url: row.url,
+      filename: row.filename ?? undefined,
+      contentType: row.content_type ?? undefined,
+      localPath: row.local_path ?? undefined,
+      addedBy: row.added_by,
+      createdAt: fromSqlTimestamp(row.created_at)
+    }));
   }
 
   // Convenience method for backwards compatibility
-  addWarning(userId: string, guildId: string, moderatorId: string, reason: string): string {
-    return this.addInfraction(userId, guildId, moderatorId, InfractionType.WARN, reason);
+  addWarning(userId: string, guildId: string, moderatorId: string, reason: string, options: AddInfractionOptions = {}): Infraction {
+    return this.addInfraction(userId, guildId, moderatorId, InfractionType.WARN, reason, options);
   }
 
-  getUserInfractions(userId: string, guildId: string, type?: InfractionType): Infraction[] {
+  getUserInfractions(userId: string, guildId: string, type?: InfractionType, includeRevoked = false): Infraction[] {
     let query = `
       SELECT * FROM user_infractions 
       WHERE user_id = ? AND guild_id = ?
     `;
     const params: any[] = [userId, guildId];
+
+    if (!includeRevoked) {
+      query += ` AND status != '${InfractionStatus.REVOKED}'`;
+    }
     
     if (type) {
       query += ` AND type = ?`;
@@ -117,57 +412,626 @@ class DatabaseManager {
     const stmt = this.db.prepare(query);
     const results = stmt.all(...params) as any[];
     
-    return results.map(row => ({
-      id: row.id,
-      userId: row.user_id,
-      guildId: row.guild_id,
-      moderatorId: row.moderator_id,
-      type: row.type as InfractionType,
-      reason: row.reason,
-      createdAt: new Date(row.created_at)
-    }));
+    return results.map(row => this.mapInfraction(row));
   }
 
-  getInfractionCount(userId: string, guildId: string, type?: InfractionType): number {
-    let query = 'SELECT COUNT(*) as count FROM user_infractions WHERE user_id = ? AND guild_id = ?';
+  hasGuildInfractions(guildId: string): boolean {
+    return this.db.prepare('SELECT 1 FROM user_infractions WHERE guild_id = ? LIMIT 1').get(guildId) !== undefined;
+  }
+
+  getGuildInfractions(guildId: string): Infraction[] {
+    const stmt = this.db.prepare('SELECT * FROM user_infractions WHERE guild_id = ? ORDER BY created_at ASC, id ASC');
+    return (stmt.all(guildId) as any[]).map(row => this.mapInfraction(row));
+  }
+
+  hasMatchingInfraction(guildId: string, userId: string, type: InfractionType, reason: string, createdAt: Date): boolean {
+    const row = this.db.prepare(`
+      SELECT 1 FROM user_infractions
+      WHERE guild_id = ? AND user_id = ? AND type = ? AND reason = ? AND created_at = ?
+      LIMIT 1
+    `).get(guildId, userId, type, reason, toSqlTimestamp(createdAt));
+    return Boolean(row);
+  }
+
+  getInfractionCount(userId: string, guildId: string, type?: InfractionType, since?: Date): number {
+    // Revoked and pardoned infractions stay on record but no longer count against the user
+    let query = `SELECT COUNT(*) as count FROM user_infractions WHERE user_id = ? AND guild_id = ? AND status = '${InfractionStatus.ACTIVE}'`;
     const params: any[] = [userId, guildId];
     
     if (type) {
       query += ' AND type = ?';
       params.push(type);
     }
+
+    if (since) {
+      query += ' AND created_at >= ?';
+      params.push(toSqlTimestamp(since));
+    }
     
     const stmt = this.db.prepare(query);
     const result = stmt.get(...params) as any;
     return result.count;
   }
 
-  getInfractionById(id: string): Infraction | null {
-    const stmt = this.db.prepare('SELECT * FROM user_infractions WHERE id = ?');
-    const result = stmt.get(id) as any;
+  getActivePoints(userId: string, guildId: string, since: Date): number {
+    const stmt = this.db.prepare(`
+      SELECT COALESCE(SUM(points), 0) as points FROM user_infractions
+      WHERE user_id = ? AND guild_id = ? AND status = ? AND created_at >= ?
+    `);
+    const result = stmt.get(userId, guildId, InfractionStatus.ACTIVE, toSqlTimestamp(since)) as any;
+    return result.points;
+  }
+
+  getInfractionById(guildId: string, id: string): Infraction | null {
+    const stmt = this.db.prepare('SELECT * FROM user_infractions WHERE guild_id = ? AND id = ?');
+    const result = stmt.get(guildId, id) as any;
     
     if (!result) return null;
     
+    return this.mapInfraction(result);
+  }
+
+  getInfractionByCase(guildId: string, caseNumber: number): Infraction | null {
+    const stmt = this.db.prepare('SELECT * FROM user_infractions WHERE guild_id = ? AND case_number = ?');
+    const result = stmt.get(guildId, caseNumber) as any;
+    return result ? this.mapInfraction(result) : null;
+  }
+
+  /** Ranks infractions in a guild by how well their reason and evidence match the query. */
+  searchInfractions(
+    guildId: string,
+    query: string,
+    filters: InfractionSearchFilters = {},
+    limit = 10,
+    offset = 0
+  ): InfractionSearchPage {
+    const match = toFtsQuery(query);
+    if (!match) return { infractions: [], total: 0 };
+
+    let where = 'infraction_search MATCH ? AND i.guild_id = ?';
+    const params: any[] = [match, guildId];
+
+    if (filters.moderatorId) {
+      where += ' AND i.moderator_id = ?';
+      params.push(filters.moderatorId);
+    }
+
+    if (filters.type) {
+      where += ' AND i.type = ?';
+      params.push(filters.type);
+    }
+
+    if (filters.since) {
+      where += ' AND i.created_at >= ?';
+      params.push(toSqlTimestamp(filters.since));
+    }
+
+    if (filters.until) {
+      where += ' AND i.created_at < ?';
+      params.push(toSqlTimestamp(filters.until));
+    }
+
+    const from = 'FROM infraction_search JOIN user_infractions i ON i.id = infraction_search.infraction_id';
+    const total = this.db.prepare(`SELECT COUNT(*) as count ${from} WHERE ${where}`).get(...params) as any;
+    // Reason matches weigh more than hits in evidence URLs and filenames
+    const results = this.db.prepare(`
+      SELECT i.* ${from} WHERE ${where}
+      ORDER BY bm25(infraction_search, 0, 10.0, 1.0), i.created_at DESC
+      LIMIT ? OFFSET ?
+    `).all(...params, limit, offset) as any[];
+
     return {
-      id: result.id,
-      userId: result.user_id,
-      guildId: result.guild_id,
-      moderatorId: result.moderator_id,
-      type: result.type as InfractionType,
-      reason: result.reason,
-      createdAt: new Date(result.created_at)
+      infractions: results.map(row => this.mapInfraction(row)),
+      total: total.count
     };
   }
 
+  revokeInfraction(guildId: string, id: string, moderatorId: string, reason: string): boolean {
+    return this.setInfractionStatus(guildId, id, InfractionStatus.REVOKED, InfractionAction.REVOKED, moderatorId, reason);
+  }
+
+  pardonInfraction(guildId: string, id: string, moderatorId: string, reason: string): boolean {
+    return this.setInfractionStatus(guildId, id, InfractionStatus.PARDONED, InfractionAction.PARDONED, moderatorId, reason);
+  }
 
+  updateInfractionReason(guildId: string, id: string, newReason: string, moderatorId: string, reason: string): boolean {
+    const infraction = this.getInfractionById(guildId, id);
+    if (!infraction || infraction.status === InfractionStatus.REVOKED) return false;
+
+    this.db.transaction(() => {
+      this.db.prepare('UPDATE user_infractions SET reason = ? WHERE id = ?').run(newReason, id);
+      this.addHistoryEntry(id, InfractionAction.REASON_EDITED, moderatorId, reason, infraction.reason, newReason);
+    })();
+    return true;
+  }
 
+  getInfractionHistory(infractionId: string): InfractionHistoryEntry[] {
+    const stmt = this.db.prepare('SELECT * FROM infraction_history WHERE infraction_id = ? ORDER BY created_at ASC, id ASC');
+    const results = stmt.all(infractionId) as any[];
+
+    return results.map(row => ({
+      id: row.id,
+      infractionId: row.infraction_id,
+      action: row.action as InfractionAction,
+      moderatorId: row.moderator_id,
+      reason: row.reason,
+      oldValue: row.old_value ?? undefined,
+      newValue: row.new_value ?? undefined,
+      createdAt: fromSqlTimestamp(row.created_at)
+    }));
+  }
+
+  getDueExpirations(now: Date = new Date()): Infraction[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM user_infractions
+      WHERE expired = 0 AND status = ? AND expires_at IS NOT NULL AND expires_at <= ?
+      ORDER BY expires_at ASC
+    `);
+    const results = stmt.all(InfractionStatus.ACTIVE, toSqlTimestamp(now)) as any[];
+
+    return results.map(row => this.mapInfraction(row));
+  }
+
+  markInfractionExpired(id: string, moderatorId: string, reason: string): boolean {
+    let updated = false;
+
+    this.db.transaction(() => {
+      const result = this.db.prepare('UPDATE user_infractions SET expired = 1 WHERE id = ? AND expired = 0').run(id);
+      updated = result.changes > 0;
+      if (updated) {
+        this.addHistoryEntry(id, InfractionAction.EXPIRED, moderatorId, reason);
+      }
+    })();
+    return updated;
+  }
+
+  /**
+   * Marks the user's active bans, mutes or timeouts of one type as expired
+   * without lifting anything, e.g. after a manual unban. Returns how many
+   * cases were closed.
+   */
+  expireActivePunishments(
+    guildId: string,
+    userId: string,
+    type: InfractionType,
+    moderatorId: string,
+    reason: string,
+    exceptId?: string
+  ): number {
+    const rows = this.db.prepare(`
+      SELECT id FROM user_infractions
+      WHERE guild_id = ? AND user_id = ? AND type = ? AND status = ? AND expired = 0 AND id != ?
+    `).all(guildId, userId, type, InfractionStatus.ACTIVE, exceptId ?? '') as any[];
+
+    return this.db.transaction(() =>
+      rows.filter(row => this.markInfractionExpired(row.id, moderatorId, reason)).length
+    )();
+  }
+
+  // Whether a different case still keeps the user banned, muted or timed out
+  hasOtherActivePunishment(infraction: Infraction, now: Date = new Date()): boolean {
+    const row = this.db.prepare(`
+      SELECT 1 FROM user_infractions
+      WHERE guild_id = ? AND user_id = ? AND type = ? AND id != ? AND status = ? AND expired = 0
+        AND (expires_at IS NULL OR expires_at > ?)
+      LIMIT 1
+    `).get(infraction.guildId, infraction.userId, infraction.type, infraction.id, InfractionStatus.ACTIVE, toSqlTimestamp(now));
+    return Boolean(row);
+  }
+
+  setInfractionDmStatus(guildId: string, id: string, status: DmStatus): void {
+    this.db.prepare('UPDATE user_infractions SET dm_status = ? WHERE guild_id = ? AND id = ?').run(status, guildId, id);
+  }
+
+  setEscalationRule(
+    guildId: string,
+    threshold: number,
+    windowDays: number,
+    action: InfractionType,
+    durationMs?: number
+  ): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO escalation_rules (guild_id, threshold, window_days, action, duration_ms)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (guild_id, threshold) DO UPDATE SET
+        window_days = excluded.window_days,
+        action = excluded.action,
+        duration_ms = excluded.duration_ms
+    `);
+    stmt.run(guildId, threshold, windowDays, action, durationMs ?? null);
+
+    const row = this.db
+      .prepare('SELECT id FROM escalation_rules WHERE guild_id = ? AND threshold = ?')
+      .get(guildId, threshold) as any;
+    return row.id;
+  }
+
+  removeEscalationRule(guildId: string, id: number): boolean {
+    const result = this.db.prepare('DELETE FROM escalation_rules WHERE guild_id = ? AND id = ?').run(guildId, id);
+    return result.changes > 0;
+  }
+
+  getEscalationRules(guildId: string): EscalationRule[] {
+    const stmt = this.db.prepare('SELECT * FROM escalation_rules WHERE guild_id = ? ORDER BY threshold ASC');
+    const results = stmt.all(guildId) as any[];
+
+    return results.map(row => ({
+      id: row.id,
+      guildId: row.guild_id,
+      threshold: row.threshold,
+      windowDays: row.window_days,
+      action: row.action as InfractionType,
+      durationMs: row.duration_ms ?? undefined
+    }));
+  }
+
+  getGuildSettings(guildId: string): GuildSettings {
+    const row = this.db.prepare('SELECT * FROM guild_settings WHERE guild_id = ?').get(guildId) as any;
+
+    if (!row) {
+      return { guildId, modRoleIds: [], dmUsers: true, archiveEvidence: false, cooldownBypassRoleIds: [] };
+    }
+
+    return {
+      guildId: row.guild_id,
+      modRoleIds: JSON.parse(row.mod_role_ids),
+      logChannelId: row.log_channel_id ?? undefined,
+      mutedRoleId: row.muted_role_id ?? undefined,
+      appealText: row.appeal_text ?? undefined,
+      dmUsers: Boolean(row.dm_users),
+      pointDecayDays: row.point_decay_days ?? undefined,
+      archiveEvidence: Boolean(row.archive_evidence),
+      appealChannelId: row.appeal_channel_id ?? undefined,
+      dmFallbackChannelId: row.dm_fallback_channel_id ?? undefined,
+      cooldownBypassRoleIds: JSON.parse(row.cooldown_bypass_role_ids)
+    };
+  }
+
+  updateGuildSettings(guildId: string, changes: GuildSettingsUpdate): GuildSettings {
+    const settings = { ...this.getGuildSettings(guildId), ...changes };
+
+    this.db.prepare(`
+      INSERT INTO guild_settings (guild_id, mod_role_ids, log_channel_id, muted_role_id, appeal_text, dm_users, point_decay_days, archive_evidence, appeal_channel_id, dm_fallback_channel_id, cooldown_bypass_role_ids)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (guild_id) DO UPDATE SET
+        mod_role_ids = excluded.mod_role_ids,
+        log_channel_id = excluded.log_channel_id,
+        muted_role_id = excluded.muted_role_id,
+        appeal_text = excluded.appeal_text,
+        dm_users = excluded.dm_users,
+        point_decay_days = excluded.point_decay_days,
+        archive_evidence = excluded.archive_evidence,
+        appeal_channel_id = excluded.appeal_channel_id,
+        dm_fallback_channel_id = excluded.dm_fallback_channel_id,
+        cooldown_bypass_role_ids = excluded.cooldown_bypass_role_ids,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(
+      guildId,
+      JSON.stringify(settings.modRoleIds),
+      settings.logChannelId ?? null,
+      settings.mutedRoleId ?? null,
+      settings.appealText ?? null,
+      settings.dmUsers ? 1 : 0,
+      settings.pointDecayDays ?? null,
+      settings.archiveEvidence ? 1 : 0,
+      settings.appealChannelId ?? null,
+      settings.dmFallbackChannelId ?? null,
+      JSON.stringify(settings.cooldownBypassRoleIds)
+    );
+
+    return settings;
+  }
+
+  /** False until the guild has been configured or seeded from its role and channel names. */
+  hasGuildSettings(guildId: string): boolean {
+    return this.db.prepare('SELECT 1 FROM guild_settings WHERE guild_id = ?').get(guildId) !== undefined;
+  }
+
+  resetGuildSettings(guildId: string): void {
+    // The row stays behind with every default, so the guild isn't seeded again
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM guild_settings WHERE guild_id = ?').run(guildId);
+      this.db.prepare('INSERT INTO guild_settings (guild_id) VALUES (?)').run(guildId);
+    })();
+  }
+
+  addCommandPermission(guildId: string, command: string, targetType: PermissionTargetType, targetId: string): boolean {
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO command_permissions (guild_id, command, target_type, target_id)
+      VALUES (?, ?, ?, ?)
+    `).run(guildId, command, targetType, targetId);
+    return result.changes > 0;
+  }
+
+  removeCommandPermission(guildId: string, command: string, targetType: PermissionTargetType, targetId: string): boolean {
+    const result = this.db.prepare(`
+      DELETE FROM command_permissions
+      WHERE guild_id = ? AND command = ? AND target_type = ? AND target_id = ?
+    `).run(guildId, command, targetType, targetId);
+    return result.changes > 0;
+  }
+
+  getCommandPermissions(guildId: string, command?: string): CommandPermission[] {
+    let query = 'SELECT * FROM command_permissions WHERE guild_id = ?';
+    const params: any[] = [guildId];
+
+    if (command) {
+      query += ' AND command = ?';
+      params.push(command);
+    }
+
+    query += ' ORDER BY command ASC, id ASC';
+
+    const results = this.db.prepare(query).all(...params) as any[];
+    return results.map(row => ({
+      id: row.id,
+      guildId: row.guild_id,
+      command: row.command,
+      targetType: row.target_type as PermissionTargetType,
+      targetId: row.target_id
+    }));
+  }
+
+  setModLogRoute(guildId: string, event: ModLogEvent, target: { channelId?: string; webhookUrl?: string }): void {
+    this.db.prepare(`
+      INSERT INTO mod_log_routes (guild_id, event_type, channel_id, webhook_url)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(guild_id, event_type) DO UPDATE SET
+        channel_id = excluded.channel_id,
+        webhook_url = excluded.webhook_url,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(guildId, event, target.channelId ?? null, target.webhookUrl ?? null);
+  }
+
+  removeModLogRoute(guildId: string, event: ModLogEvent): boolean {
+    const result = this.db.prepare(`
+      DELETE FROM mod_log_routes WHERE guild_id = ? AND event_type = ?
+    `).run(guildId, event);
+    return result.changes > 0;
+  }
+
+  getModLogRoute(guildId: string, event: ModLogEvent): ModLogRoute | null {
+    const row = this.db.prepare(`
+      SELECT * FROM mod_log_routes WHERE guild_id = ? AND event_type = ?
+    `).get(guildId, event) as any;
+    return row ? this.mapModLogRoute(row) : null;
+  }
+
+  getModLogRoutes(guildId: string): ModLogRoute[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM mod_log_routes WHERE guild_id = ? ORDER BY event_type ASC
+    `).all(guildId) as any[];
+    return rows.map(row => this.mapModLogRoute(row));
+  }
+
+  addAppeal(infractionId: string, guildId: string, userId: string, content: string): number {
+    const result = this.db.prepare(`
+      INSERT INTO infraction_appeals (infraction_id, guild_id, user_id, content)
+      VALUES (?, ?, ?, ?)
+    `).run(infractionId, guildId, userId, content);
+    return Number(result.lastInsertRowid);
+  }
+
+  deleteAppeal(id: number): void {
+    this.db.prepare('DELETE FROM infraction_appeals WHERE id = ?').run(id);
+  }
+
+  getAppeal(id: number): Appeal | null {
+    const row = this.db.prepare('SELECT * FROM infraction_appeals WHERE id = ?').get(id) as any;
+    return row ? this.mapAppeal(row) : null;
+  }
+
+  getInfractionAppeals(infractionId: string): Appeal[] {
+    const stmt = this.db.prepare('SELECT * FROM infraction_appeals WHERE infraction_id = ? ORDER BY created_at DESC, id DESC');
+    return (stmt.all(infractionId) as any[]).map(row => this.mapAppeal(row));
+  }
+
+  resolveAppeal(id: number, status: AppealStatus.ACCEPTED | AppealStatus.DENIED, reviewerId: string): boolean {
+    const result = this.db.prepare(`
+      UPDATE infraction_appeals SET status = ?, reviewer_id = ?, reviewed_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = ?
+    `).run(status, reviewerId, id, AppealStatus.PENDING);
+    return result.changes > 0;
+  }
+
+  addNote(guildId: string, userId: string, authorId: string, content: string): number {
+    const result = this.db.prepare(`
+      INSERT INTO user_notes (guild_id, user_id, author_id, content)
+      VALUES (?, ?, ?, ?)
+    `).run(guildId, userId, authorId, content);
+    return Number(result.lastInsertRowid);
+  }
+
+  getNote(guildId: string, id: number): UserNote | null {
+    const row = this.db.prepare('SELECT * FROM user_notes WHERE guild_id = ? AND id = ?').get(guildId, id) as any;
+    return row ? this.mapNote(row) : null;
+  }
+
+  getUserNotes(guildId: string, userId: string): UserNote[] {
+    const stmt = this.db.prepare('SELECT * FROM user_notes WHERE guild_id = ? AND user_id = ? ORDER BY created_at DESC, id DESC');
+    return (stmt.all(guildId, userId) as any[]).map(row => this.mapNote(row));
+  }
+
+  getGuildNotes(guildId: string): UserNote[] {
+    const stmt = this.db.prepare('SELECT * FROM user_notes WHERE guild_id = ? ORDER BY created_at ASC, id ASC');
+    return (stmt.all(guildId) as any[]).map(row => this.mapNote(row));
+  }
+
+  updateNote(guildId: string, id: number, content: string): boolean {
+    const result = this.db.prepare(`
+      UPDATE user_notes SET content = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE guild_id = ? AND id = ?
+    `).run(content, guildId, id);
+    return result.changes > 0;
+  }
+
+  removeNote(guildId: string, id: number): boolean {
+    const result = this.db.prepare('DELETE FROM user_notes WHERE guild_id = ? AND id = ?').run(guildId, id);
+    return result.changes > 0;
+  }
+
+  hasMatchingNote(guildId: string, userId: string, content: string, createdAt: Date): boolean {
+    const row = this.db.prepare(`
+      SELECT 1 FROM user_notes WHERE guild_id = ? AND user_id = ? AND content = ? AND created_at = ? LIMIT 1
+    `).get(guildId, userId, content, toSqlTimestamp(createdAt));
+    return Boolean(row);
+  }
+
+  /** Inserts a note with its original timestamps, for imports. */
+  importNote(note: Omit<UserNote, 'id'>): number {
+    const result = this.db.prepare(`
+      INSERT INTO user_notes (guild_id, user_id, author_id, content, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      note.guildId,
+      note.userId,
+      note.authorId,
+      note.content,
+      toSqlTimestamp(note.createdAt),
+      note.updatedAt ? toSqlTimestamp(note.updatedAt) : null
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  private mapNote(row: any): UserNote {
+    return {
+      id: row.id,
+      guildId: row.guild_id,
+      userId: row.user_id,
+      authorId: row.author_id,
+      content: row.content,
+      createdAt: fromSqlTimestamp(row.created_at),
+      updatedAt: row.updated_at ? fromSqlTimestamp(row.updated_at) : undefined
+    };
+  }
+
+  private mapModLogRoute(row: any): ModLogRoute {
+    return {
+      guildId: row.guild_id,
+      event: row.event_type as ModLogEvent,
+      channelId: row.channel_id ?? undefined,
+      webhookUrl: row.webhook_url ?? undefined
+    };
+  }
+
+  private mapAppeal(row: any): Appeal {
+    return {
+      id: row.id,
+      infractionId: row.infraction_id,
+      guildId: row.guild_id,
+      userId: row.user_id,
+      content: row.content,
+      status: row.status as AppealStatus,
+      reviewerId: row.reviewer_id ?? undefined,
+      createdAt: fromSqlTimestamp(row.created_at),
+      reviewedAt: row.reviewed_at ? fromSqlTimestamp(row.reviewed_at) : undefined
+    };
+  }
+
+  private setInfractionStatus(
+    guildId: string,
+    id: string,
+    status: InfractionStatus,
+    action: InfractionAction,
+    moderatorId: string,
+    reason: string
+  ): boolean {
+    const infraction = this.getInfractionById(guildId, id);
+    if (!infraction || infraction.status !== InfractionStatus.ACTIVE) return false;
+
+    this.db.transaction(() => {
+      this.db.prepare('UPDATE user_infractions SET status = ? WHERE id = ?').run(status, id);
+      this.addHistoryEntry(id, action, moderatorId, reason, infraction.status, status);
+    })();
+    return true;
+  }
+
+  private addHistoryEntry(
+    infractionId: string,
+    action: InfractionAction,
+    moderatorId: string,
+    reason: string,
+    oldValue?: string,
+    newValue?: string
+  ): void {
+    this.db.prepare(`
+      INSERT INTO infraction_history (infraction_id, action, moderator_id, reason, old_value, new_value)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(infractionId, action, moderatorId, reason, oldValue ?? null, newValue ?? null);
+  }
+
+
+
+
+  // Statistics leave out revoked infractions, which were issued by mistake
+  getTypeCounts(guildId: string, since: Date, moderatorId?: string): Record<InfractionType, number> {
+    let query = `SELECT type, COUNT(*) as count FROM user_infractions WHERE guild_id = ? AND created_at >= ? AND status != ?`;
+    const params: any[] = [guildId, toSqlTimestamp(since), InfractionStatus.REVOKED];
+
+    if (moderatorId) {
+      query += ' AND moderator_id = ?';
+      params.push(moderatorId);
+    }
+
+    const counts = Object.fromEntries(Object.values(InfractionType).map(type => [type, 0])) as Record<InfractionType, number>;
+    for (const row of this.db.prepare(`${query} GROUP BY type`).all(...params) as any[]) {
+      counts[row.type as InfractionType] = row.count;
+    }
+    return counts;
+  }
+
+  getModeratorTypeCounts(guildId: string, since: Date): ModeratorTypeCount[] {
+    const results = this.db.prepare(`
+      SELECT moderator_id, type, COUNT(*) as count FROM user_infractions
+      WHERE guild_id = ? AND created_at >= ? AND status != ?
+      GROUP BY moderator_id, type
+    `).all(guildId, toSqlTimestamp(since), InfractionStatus.REVOKED) as any[];
+
+    return results.map(row => ({
+      moderatorId: row.moderator_id,
+      type: row.type as InfractionType,
+      count: row.count
+    }));
+  }
+
+  getTopOffenders(guildId: string, since: Date, limit = 5): OffenderSummary[] {
+    const results = this.db.prepare(`
+      SELECT user_id, COUNT(*) as count, SUM(points) as points FROM user_infractions
+      WHERE guild_id = ? AND created_at >= ? AND status != ?
+      GROUP BY user_id
+      ORDER BY count DESC, points DESC
+      LIMIT ?
+    `).all(guildId, toSqlTimestamp(since), InfractionStatus.REVOKED, limit) as any[];
+
+    return results.map(row => ({ userId: row.user_id, count: row.count, points: row.points ?? 0 }));
+  }
+
+  /** Infractions per UTC day; days without any are omitted. */
+  getDailyCounts(guildId: string, since: Date, moderatorId?: string): DailyCount[] {
+    let query = `SELECT date(created_at) as day, COUNT(*) as count FROM user_infractions WHERE guild_id = ? AND created_at >= ? AND status != ?`;
+    const params: any[] = [guildId, toSqlTimestamp(since), InfractionStatus.REVOKED];
+
+    if (moderatorId) {
+      query += ' AND moderator_id = ?';
+      params.push(moderatorId);
+    }
+
+    const results = this.db.prepare(`${query} GROUP BY day ORDER BY day ASC`).all(...params) as any[];
+    return results.map(row => ({ day: row.day, count: row.count }));
+  }
+
+  /** Runs `fn` in a single transaction; nested calls become savepoints. */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
 
   close(): void {
-    this.db.close();
+    this.connection?.close();
+    this.connection = null;
   }
 
-  backup(backupPath: string): void {
-    this.db.backup(backupPath);
+  async backup(backupPath: string): Promise<void> {
+    await this.db.backup(backupPath);
   }
 
   getStats(): { infractions: number; warns: number; mutes: number; kicks: number; bans: number; timeouts: number } {
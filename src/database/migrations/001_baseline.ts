@@ -0,0 +1,136 @@
+import Database from 'better-sqlite3';
+import { addColumnIfMissing, Migration } from '../migrator';
+
+// Point values at the time severity points were introduced. Kept here rather
+// than imported so the migration keeps doing the same thing if defaults change.
+const INITIAL_INFRACTION_POINTS: Record<string, number> = {
+  WARN: 1,
+  MUTE: 2,
+  TIMEOUT: 2,
+  KICK: 3,
+  BAN: 5
+};
+
+// Databases created before versioning was introduced may already hold any
+// subset of this schema, so every step here has to be safe to re-run.
+function up(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS user_infractions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      guild_id TEXT NOT NULL,
+      moderator_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_infractions_user_guild ON user_infractions (user_id, guild_id);
+    CREATE INDEX IF NOT EXISTS idx_infractions_type ON user_infractions (type);
+    CREATE INDEX IF NOT EXISTS idx_infractions_created ON user_infractions (created_at);
+  `);
+
+  addColumnIfMissing(db, 'user_infractions', 'evidence', 'TEXT');
+  addColumnIfMissing(db, 'user_infractions', 'status', `TEXT NOT NULL DEFAULT 'ACTIVE'`);
+  addColumnIfMissing(db, 'user_infractions', 'expires_at', 'DATETIME');
+  addColumnIfMissing(db, 'user_infractions', 'expired', 'INTEGER NOT NULL DEFAULT 0');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_infractions_expiry ON user_infractions (expired, expires_at)');
+  addColumnIfMissing(db, 'user_infractions', 'parent_id', 'TEXT');
+  if (addColumnIfMissing(db, 'user_infractions', 'points', 'INTEGER NOT NULL DEFAULT 0')) {
+    const stmt = db.prepare('UPDATE user_infractions SET points = ? WHERE type = ?');
+    for (const [type, points] of Object.entries(INITIAL_INFRACTION_POINTS)) {
+      stmt.run(points, type);
+    }
+  }
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS infraction_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      infraction_id TEXT NOT NULL,
+      action TEXT NOT NULL,
+      moderator_id TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      old_value TEXT,
+      new_value TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (infraction_id) REFERENCES user_infractions (id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_history_infraction ON infraction_history (infraction_id);
+
+    CREATE TABLE IF NOT EXISTS escalation_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      guild_id TEXT NOT NULL,
+      threshold INTEGER NOT NULL,
+      window_days INTEGER NOT NULL,
+      action TEXT NOT NULL,
+      duration_ms INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (guild_id, threshold)
+    );
+
+    CREATE TABLE IF NOT EXISTS guild_settings (
+      guild_id TEXT PRIMARY KEY,
+      mod_role_ids TEXT NOT NULL DEFAULT '[]',
+      log_channel_id TEXT,
+      muted_role_id TEXT,
+      appeal_text TEXT,
+      dm_users INTEGER NOT NULL DEFAULT 1,
+      point_decay_days INTEGER,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS command_permissions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      guild_id TEXT NOT NULL,
+      command TEXT NOT NULL,
+      target_type TEXT NOT NULL,
+      target_id TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (guild_id, command, target_type, target_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS infraction_evidence (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      infraction_id TEXT NOT NULL,
+      url TEXT NOT NULL,
+      filename TEXT,
+      content_type TEXT,
+      local_path TEXT,
+      added_by TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (infraction_id) REFERENCES user_infractions (id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_evidence_infraction ON infraction_evidence (infraction_id);
+
+    CREATE TABLE IF NOT EXISTS infraction_appeals (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      infraction_id TEXT NOT NULL,
+      guild_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'PENDING',
+      reviewer_id TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      reviewed_at DATETIME,
+      FOREIGN KEY (infraction_id) REFERENCES user_infractions (id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_appeals_infraction ON infraction_appeals (infraction_id);
+  `);
+
+  addColumnIfMissing(db, 'guild_settings', 'archive_evidence', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'guild_settings', 'appeal_channel_id', 'TEXT');
+
+  // Evidence used to be a single URL column on user_infractions
+  db.exec(`
+    INSERT INTO infraction_evidence (infraction_id, url, added_by, created_at)
+    SELECT id, evidence, moderator_id, created_at FROM user_infractions WHERE evidence IS NOT NULL;
+
+    UPDATE user_infractions SET evidence = NULL WHERE evidence IS NOT NULL;
+  `);
+}
+
+const migration: Migration = { version: 1, name: 'baseline', up };
+export default migration;
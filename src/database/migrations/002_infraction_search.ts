@@ -0,0 +1,56 @@
+import Database from 'better-sqlite3';
+import { Migration } from '../migrator';
+
+// Evidence is indexed as one text blob per infraction: every URL and filename.
+function evidenceText(idExpression: string): string {
+  return `COALESCE((
+    SELECT group_concat(url || ' ' || COALESCE(filename, ''), ' ')
+    FROM infraction_evidence WHERE infraction_id = ${idExpression}
+  ), '')`;
+}
+
+// Full-text index over reasons and evidence. Triggers keep it in step with the
+// source tables so callers never have to update it themselves.
+function up(db: Database.Database): void {
+  db.exec(`
+    CREATE VIRTUAL TABLE infraction_search USING fts5 (
+      infraction_id UNINDEXED,
+      reason,
+      evidence,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+
+    INSERT INTO infraction_search (infraction_id, reason, evidence)
+    SELECT id, reason, ${evidenceText('user_infractions.id')} FROM user_infractions;
+
+    CREATE TRIGGER infraction_search_insert AFTER INSERT ON user_infractions BEGIN
+      INSERT INTO infraction_search (infraction_id, reason, evidence) VALUES (new.id, new.reason, '');
+    END;
+
+    CREATE TRIGGER infraction_search_reason AFTER UPDATE OF reason ON user_infractions BEGIN
+      UPDATE infraction_search SET reason = new.reason WHERE infraction_id = new.id;
+    END;
+
+    CREATE TRIGGER infraction_search_delete AFTER DELETE ON user_infractions BEGIN
+      DELETE FROM infraction_search WHERE infraction_id = old.id;
+    END;
+
+    CREATE TRIGGER infraction_search_evidence_insert AFTER INSERT ON infraction_evidence BEGIN
+      UPDATE infraction_search SET evidence = ${evidenceText('new.infraction_id')}
+      WHERE infraction_id = new.infraction_id;
+    END;
+
+    CREATE TRIGGER infraction_search_evidence_update AFTER UPDATE OF url, filename ON infraction_evidence BEGIN
+      UPDATE infraction_search SET evidence = ${evidenceText('new.infraction_id')}
+      WHERE infraction_id = new.infraction_id;
+    END;
+
+    CREATE TRIGGER infraction_search_evidence_delete AFTER DELETE ON infraction_evidence BEGIN
+      UPDATE infraction_search SET evidence = ${evidenceText('old.infraction_id')}
+      WHERE infraction_id = old.infraction_id;
+    END;
+  `);
+}
+
+const migration: Migration = { version: 2, name: 'infraction_search', up };
+export default migration;
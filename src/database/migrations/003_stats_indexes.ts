@@ -0,0 +1,14 @@
+import Database from 'better-sqlite3';
+import { Migration } from '../migrator';
+
+// Statistics are always scoped to one guild, so these lead with guild_id and
+// let the time-window filter use the rest of the index.
+function up(db: Database.Database): void {
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_infractions_guild_created ON user_infractions (guild_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_infractions_guild_moderator ON user_infractions (guild_id, moderator_id, created_at);
+  `);
+}
+
+const migration: Migration = { version: 3, name: 'stats_indexes', up };
+export default migration;
@@ -0,0 +1,22 @@
+import Database from 'better-sqlite3';
+import { addColumnIfMissing, Migration } from '../migrator';
+
+// Existing infractions are numbered per guild in the order they were issued.
+function up(db: Database.Database): void {
+  addColumnIfMissing(db, 'user_infractions', 'case_number', 'INTEGER');
+
+  db.exec(`
+    UPDATE user_infractions SET case_number = (
+      SELECT numbered.case_number FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY guild_id ORDER BY created_at, rowid) as case_number
+        FROM user_infractions
+      ) numbered
+      WHERE numbered.id = user_infractions.id
+    );
+
+    CREATE UNIQUE INDEX idx_infractions_guild_case ON user_infractions (guild_id, case_number);
+  `);
+}
+
+const migration: Migration = { version: 4, name: 'case_numbers', up };
+export default migration;
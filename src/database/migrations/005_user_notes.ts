@@ -0,0 +1,23 @@
+import Database from 'better-sqlite3';
+import { Migration } from '../migrator';
+
+// Notes are context for staff only; they live apart from user_infractions so
+// no count, points total or escalation rule can ever pick them up.
+function up(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE user_notes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      guild_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      author_id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME
+    );
+
+    CREATE INDEX idx_notes_user_guild ON user_notes (guild_id, user_id);
+  `);
+}
+
+const migration: Migration = { version: 5, name: 'user_notes', up };
+export default migration;
@@ -0,0 +1,20 @@
+import Database from 'better-sqlite3';
+import { Migration } from '../migrator';
+
+// Each guild can send an event type to its own channel or webhook; anything
+// without a route still goes to the log channel from guild_settings.
+function up(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE mod_log_routes (
+      guild_id TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      channel_id TEXT,
+      webhook_url TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (guild_id, event_type)
+    );
+  `);
+}
+
+const migration: Migration = { version: 6, name: 'mod_log_routes', up };
+export default migration;
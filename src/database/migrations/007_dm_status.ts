@@ -0,0 +1,11 @@
+import Database from 'better-sqlite3';
+import { addColumnIfMissing, Migration } from '../migrator';
+
+// Older infractions keep a NULL status: whether their DM arrived was never recorded.
+function up(db: Database.Database): void {
+  addColumnIfMissing(db, 'user_infractions', 'dm_status', 'TEXT');
+  addColumnIfMissing(db, 'guild_settings', 'dm_fallback_channel_id', 'TEXT');
+}
+
+const migration: Migration = { version: 7, name: 'dm_status', up };
+export default migration;
@@ -0,0 +1,10 @@
+import Database from 'better-sqlite3';
+import { addColumnIfMissing, Migration } from '../migrator';
+
+// Stored as a JSON array of role IDs, like mod_role_ids
+function up(db: Database.Database): void {
+  addColumnIfMissing(db, 'guild_settings', 'cooldown_bypass_role_ids', `TEXT NOT NULL DEFAULT '[]'`);
+}
+
+const migration: Migration = { version: 8, name: 'cooldown_bypass_roles', up };
+export default migration;
@@ -0,0 +1,21 @@
+import { Migration } from '../migrator';
+import baseline from './001_baseline';
+import infractionSearch from './002_infraction_search';
+import statsIndexes from './003_stats_indexes';
+import caseNumbers from './004_case_numbers';
+import userNotes from './005_user_notes';
+import modLogRoutes from './006_mod_log_routes';
+import dmStatus from './007_dm_status';
+import cooldownBypassRoles from './008_cooldown_bypass_roles';
+
+// Keep this list in ascending version order; versions must never be reused.
+export const migrations: Migration[] = [
+  baseline,
+  infractionSearch,
+  statsIndexes,
+  caseNumbers,
+  userNotes,
+  modLogRoutes,
+  dmStatus,
+  cooldownBypassRoles
+];
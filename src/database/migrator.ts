@@ -0,0 +1,60 @@
+import Database from 'better-sqlite3';
+import { migrations } from './migrations';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+}
+
+export class SchemaTooNewError extends Error {
+  constructor(public readonly databaseVersion: number, public readonly latestVersion: number) {
+    super(
+      `Database schema is at version ${databaseVersion} but this build only knows up to ${latestVersion}. ` +
+      'Update the bot before starting it against this database.'
+    );
+    this.name = 'SchemaTooNewError';
+  }
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+export function getLatestVersion(): number {
+  return migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+}
+
+export function getPendingMigrations(db: Database.Database): Migration[] {
+  const current = getSchemaVersion(db);
+  const latest = getLatestVersion();
+  if (current > latest) {
+    throw new SchemaTooNewError(current, latest);
+  }
+
+  return migrations.filter(migration => migration.version > current);
+}
+
+// Each migration runs in its own transaction together with the version bump,
+// so a failure leaves the database at the last fully applied version.
+export function runMigrations(db: Database.Database, onApplied?: (migration: Migration) => void): Migration[] {
+  const pending = getPendingMigrations(db);
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+    onApplied?.(migration);
+  }
+
+  return pending;
+}
+
+export function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as any[];
+  if (columns.some(col => col.name === column)) return false;
+
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
@@ -0,0 +1,11 @@
+import { join } from 'path';
+import { existsSync, mkdirSync } from 'fs';
+
+export const DATA_DIR = join(process.cwd(), 'data');
+export const DATABASE_PATH = join(DATA_DIR, 'bot.db');
+
+export function ensureDataDir(): void {
+  if (!existsSync(DATA_DIR)) {
+    mkdirSync(DATA_DIR, { recursive: true });
+  }
+}
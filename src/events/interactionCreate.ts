@@ -1,9 +1,58 @@
-import { Client, Collection, ChatInputCommandInteraction, SlashCommandBuilder, ButtonInteraction, StringSelectMenuInteraction, ModalSubmitInteraction } from 'discord.js';
+import { Client, ChatInputCommandInteraction, SlashCommandBuilder, SlashCommandOptionsOnlyBuilder, SlashCommandSubcommandsOnlyBuilder, ButtonInteraction, AnySelectMenuInteraction, ModalSubmitInteraction, GuildMember, PermissionResolvable } from 'discord.js';
 import type { Interaction } from 'discord.js';
+import { routeComponent } from '../interactions/router';
+import { CommandCooldown } from '../services/cooldowns';
+import { getBeforeChain } from '../services/commandMiddleware';
+import { CommandError, sendErrorResponse } from '../utils/responses';
+
+export interface CommandContext {
+    /** The member named by `hierarchyTarget`, once they have passed the hierarchy check. */
+    target: GuildMember | null;
+}
+
+/** Runs before `execute`; throw a CommandError to stop the command with that message. */
+export type CommandMiddleware = (
+    interaction: ChatInputCommandInteraction,
+    command: Command,
+    context: CommandContext,
+) => Promise<void>;
+
+/** Runs after `execute` whether or not it succeeded; `error` is what it threw, if anything. */
+export type AfterCommandMiddleware = (
+    interaction: ChatInputCommandInteraction,
+    command: Command,
+    context: CommandContext,
+    error?: unknown,
+) => Promise<void>;
+
+export interface HierarchyTarget {
+    /** The user option naming the target. */
+    option: string;
+    /** Used in error messages, e.g. "You cannot kick someone with an equal or higher role." */
+    verb: string;
+    /** Defaults to true. When false, users outside the server pass and `context.target` stays null. */
+    requireMember?: boolean;
+}
 
 export interface Command {
-    data: SlashCommandBuilder;
-    execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
+    data: SlashCommandBuilder | SlashCommandOptionsOnlyBuilder | SlashCommandSubcommandsOnlyBuilder;
+    /** Commands marked `guildOnly` may declare `ChatInputCommandInteraction<'cached'>` instead. */
+    execute(interaction: ChatInputCommandInteraction, context: CommandContext): Promise<void>;
+    /** Restrict to configured moderator roles unless /permissions says otherwise. */
+    moderatorOnly?: boolean;
+    /** How often the command can be used; checked after permissions. */
+    cooldown?: CommandCooldown;
+    /** Reject the command outside servers; `execute` may then treat the interaction as cached. */
+    guildOnly?: boolean;
+    /** Discord permissions the invoking member must have. */
+    requiredPermissions?: PermissionResolvable;
+    /** Discord permissions the bot needs to carry the command out. */
+    botPermissions?: PermissionResolvable;
+    hierarchyTarget?: HierarchyTarget;
+    /** Defer the reply once every check has passed, so `execute` answers with editReply. */
+    autoDefer?: boolean | { ephemeral: boolean };
+    before?: CommandMiddleware[];
+    after?: AfterCommandMiddleware[];
 }
 
 export const name = 'interactionCreate';
@@ -17,7 +66,7 @@ export async function execute(interaction: Interaction): Promise<void> {
       await handleChatInputCommand(interaction, client);
     } else if (interaction.isButton()) {
       await handleButtonInteraction(interaction);
-    } else if (interaction.isStringSelectMenu()) {
+    } else if (interaction.isAnySelectMenu()) {
       await handleSelectMenuInteraction(interaction);
     } else if (interaction.isModalSubmit()) {
       await handleModalInteraction(interaction);
@@ -35,56 +84,60 @@ async function handleChatInputCommand(
 
   if (!commands?.has(interaction.commandName)) {
     console.warn(`Unknown command: ${interaction.commandName}`);
-    return sendErrorResponse(
-      interaction,
-      `Command \`${interaction.commandName}\` not found.`,
-      `Unknown command: ${interaction.commandName}`,
-      'command_not_found',
-    );
+    return sendErrorResponse(interaction, `Command \`${interaction.commandName}\` not found.`);
   }
 
-  const command = commands.get(interaction.commandName)!;
+  const command: Command = commands.get(interaction.commandName)!;
+  const context: CommandContext = { target: null };
+  let failure: unknown;
 
   try {
+    for (const middleware of getBeforeChain(command)) {
+      await middleware(interaction, command, context);
+    }
+
     console.log(`Running /${interaction.commandName} by ${interaction.user.tag}`);
     const start = Date.now();
-    await command.execute(interaction);
+    await command.execute(interaction, context);
     const ms = Date.now() - start;
     console.log(`${interaction.commandName} executed in ${ms}ms`);
   } catch (err) {
-    console.error(`Error in command ${interaction.commandName}:`, err);
-    await sendErrorResponse(
-      interaction,
-      'Something went wrong while executing the command.',
-      err instanceof Error ? err : new Error(String(err)),
-      'command_execution_error'
-    );
+    failure = err;
+    if (err instanceof CommandError) {
+      await sendErrorResponse(interaction, err.message);
+    } else {
+      console.error(`Error in command ${interaction.commandName}:`, err);
+      await sendErrorResponse(interaction, 'Something went wrong while executing the command.');
+    }
+  }
+
+  for (const middleware of command.after ?? []) {
+    try {
+      await middleware(interaction, command, context, failure);
+    } catch (err) {
+      console.error(`Error in after middleware for ${interaction.commandName}:`, err);
+    }
   }
 }
 
 async function handleButtonInteraction(interaction: ButtonInteraction): Promise<void> {
   console.log(`Button: ${interaction.customId} by ${interaction.user.tag}`);
-  const client = interaction.client as Client & { commands?: Collection<string, Command> };
 
   try {
-    switch (interaction.customId) {
-      case 'ping_refresh':
-        break;
-      default:
-        console.info(`Unhandled button: ${interaction.customId}`);
+    if (!(await routeComponent(interaction, interaction.client.buttons))) {
+      console.info(`Unhandled button: ${interaction.customId}`);
     }
   } catch (err) {
     console.error(`Button error (${interaction.customId}):`, err);
   }
 }
 
-async function handleSelectMenuInteraction(interaction: StringSelectMenuInteraction): Promise<void> {
+async function handleSelectMenuInteraction(interaction: AnySelectMenuInteraction): Promise<void> {
   console.log(`Select Menu: ${interaction.customId} by ${interaction.user.tag}`);
 
   try {
-    switch (interaction.customId) {
-      default:
-        console.info(`Unhandled select menu: ${interaction.customId}`);
+    if (!(await routeComponent(interaction, interaction.client.selectMenus))) {
+      console.info(`Unhandled select menu: ${interaction.customId}`);
     }
   } catch (err) {
     console.error(`Select menu error (${interaction.customId}):`, err);
@@ -95,30 +148,10 @@ async function handleModalInteraction(interaction: ModalSubmitInteraction): Prom
   console.log(`Modal: ${interaction.customId} by ${interaction.user.tag}`);
 
   try {
-    switch (interaction.customId) {
-      default:
-        console.info(`Unhandled modal: ${interaction.customId}`);
+    if (!(await routeComponent(interaction, interaction.client.modals))) {
+      console.info(`Unhandled modal: ${interaction.customId}`);
     }
   } catch (err) {
     console.error(`Modal error (${interaction.customId}):`, err);
   }
 }
-
-async function sendErrorResponse(
-  interaction: ChatInputCommandInteraction,
-  userMessage: string,
-  error: string | Error,
-  errorType: string,
-): Promise<void> {
-  const message = { content: userMessage, ephemeral: true };
-
-  try {
-    if (interaction.replied || interaction.deferred) {
-      await interaction.followUp(message);
-    } else {
-      await interaction.reply(message);
-    }
-  } catch (replyErr) {
-    console.error('Failed to reply with error:', replyErr);
-  }
-}
\ No newline at end of file
@@ -1,4 +1,7 @@
 import { Events, Client, ActivityType } from 'discord.js';
+import { startExpiryScheduler } from '../services/expiryScheduler';
+import { startBackupScheduler } from '../services/backups';
+import { seedAllLegacySettings } from '../services/legacySettings';
 
 export const name = Events.ClientReady;
 export const once = true;
@@ -7,4 +10,8 @@ export async function execute(client: Client<true>) {
     console.log(`Logged in as ${client.user?.tag}!`);
     
     client.user?.setActivity('Admiring the wonderful work', { type: ActivityType.Custom });
-}
\ No newline at end of file
+
+    seedAllLegacySettings(client);
+    startExpiryScheduler(client);
+    startBackupScheduler();
+}
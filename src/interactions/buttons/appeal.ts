@@ -0,0 +1,48 @@
+import {
+  ActionRowBuilder,
+  ButtonInteraction,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from "discord.js";
+import database from "../../database/database";
+import { APPEAL_ID, AppealParams, findAppealChannel, getAppealBlocker } from "../../services/appeals";
+import { formatCase } from "../../utils/cases";
+
+async function execute(
+  interaction: ButtonInteraction,
+  { guildId, infractionId }: AppealParams
+): Promise<void> {
+  const guild = interaction.client.guilds.cache.get(guildId);
+  if (!guild || !findAppealChannel(guild)) {
+    await interaction.reply({
+      content: "Appeals are not available for this server right now. Please contact a moderator.",
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const blocker = getAppealBlocker(guildId, infractionId, interaction.user.id);
+  if (blocker) {
+    await interaction.reply({ content: blocker, ephemeral: true });
+    return;
+  }
+
+  const infraction = database.getInfractionById(guildId, infractionId)!;
+  const reasonInput = new TextInputBuilder()
+    .setCustomId("reason")
+    .setLabel("Why should this infraction be revoked?")
+    .setStyle(TextInputStyle.Paragraph)
+    .setMinLength(20)
+    .setMaxLength(1000)
+    .setRequired(true);
+
+  const modal = new ModalBuilder()
+    .setCustomId(interaction.customId)
+    .setTitle(`Appeal ${formatCase(infraction)}`)
+    .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(reasonInput));
+
+  await interaction.showModal(modal);
+}
+
+export default { customId: APPEAL_ID, execute };
@@ -0,0 +1,93 @@
+import { ButtonInteraction, EmbedBuilder } from "discord.js";
+import database, { AppealStatus, ModLogEvent } from "../../database/database";
+import {
+  APPEAL_REVIEW_ID,
+  AppealReviewParams,
+  createReviewButtonRow,
+  notifyAppealResult,
+} from "../../services/appeals";
+import { canUseCommand } from "../../services/permissions";
+import { sendModLog } from "../../services/modLog";
+import { formatCase } from "../../utils/cases";
+import { undoPunishment } from "../../utils/moderation";
+
+async function execute(
+  interaction: ButtonInteraction,
+  { decision, appealId }: AppealReviewParams
+): Promise<void> {
+  if (!interaction.inCachedGuild()) return;
+
+  const command = interaction.client.commands.get("infraction");
+  if (!command || !canUseCommand(interaction.member, command, "infraction revoke")) {
+    await interaction.reply({
+      content: "You don't have permission to review appeals.",
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const appeal = database.getAppeal(appealId);
+  if (!appeal || appeal.guildId !== interaction.guild.id) {
+    await interaction.reply({ content: "That appeal could not be found.", ephemeral: true });
+    return;
+  }
+
+  const accepted = decision === "accept";
+  const status = accepted ? AppealStatus.ACCEPTED : AppealStatus.DENIED;
+  if (!database.resolveAppeal(appeal.id, status, interaction.user.id)) {
+    await interaction.reply({
+      content: `Appeal #${appeal.id} has already been ${appeal.status.toLowerCase()}.`,
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (accepted) {
+    database.revokeInfraction(
+      appeal.guildId,
+      appeal.infractionId,
+      interaction.user.id,
+      `Appeal #${appeal.id} accepted`
+    );
+  }
+
+  const reviewedEmbed = EmbedBuilder.from(interaction.message.embeds[0])
+    .setColor(accepted ? 0x00ff00 : 0xff0000)
+    .addFields({
+      name: "Decision",
+      value: `${accepted ? "Accepted" : "Denied"} by ${interaction.user.tag}`,
+      inline: false,
+    });
+
+  await interaction.update({
+    embeds: [reviewedEmbed],
+    components: [createReviewButtonRow(appeal.id, true)],
+  });
+
+  const infraction = database.getInfractionById(appeal.guildId, appeal.infractionId);
+  const liftError =
+    accepted && infraction
+      ? await undoPunishment(interaction.guild, infraction, `Appeal #${appeal.id} accepted`)
+      : null;
+  if (liftError) {
+    await interaction.followUp({ content: `⚠️ ${liftError}`, ephemeral: true });
+  }
+
+  const resolved = { ...appeal, status };
+  await notifyAppealResult(interaction.client, resolved, interaction.guild);
+
+  await sendModLog(interaction.guild, {
+    event: ModLogEvent.APPEAL,
+    title: `Appeal ${accepted ? "Accepted" : "Denied"}`,
+    color: accepted ? 0x00ff00 : 0xff0000,
+    user: { id: appeal.userId },
+    fields: [
+      { name: "Reviewer", value: interaction.user.tag, inline: true },
+      ...(liftError ? [{ name: "⚠️ Not lifted", value: liftError, inline: false }] : []),
+    ],
+    footer: `Appeal #${appeal.id}${infraction ? ` • ${formatCase(infraction)}` : ""}`,
+    summary: `📨 Appeal #${appeal.id} ${accepted ? "accepted" : "denied"} by ${interaction.user.tag}`,
+  });
+}
+
+export default { customId: APPEAL_REVIEW_ID, execute };
@@ -0,0 +1,87 @@
+import { ButtonInteraction, EmbedBuilder } from "discord.js";
+import {
+  BULK_BUTTON_ID,
+  BulkButtonParams,
+  createBulkButtonRow,
+  executeBulkAction,
+  formatTargetList,
+  getPendingAction,
+  logBulkAction,
+  PENDING_TTL_MS,
+  takePendingAction,
+} from "../../services/bulkActions";
+import { canUseCommand } from "../../services/permissions";
+import { formatCase } from "../../utils/cases";
+
+async function execute(
+  interaction: ButtonInteraction,
+  { decision, token }: BulkButtonParams
+): Promise<void> {
+  if (!interaction.inCachedGuild()) return;
+
+  const pending = getPendingAction(token);
+  if (!pending || pending.guildId !== interaction.guild.id) {
+    await interaction.update({
+      content: "This bulk action has expired. Run `/bulk` again.",
+      components: [],
+    });
+    return;
+  }
+
+  takePendingAction(token);
+  const disabledRow = createBulkButtonRow(pending, true);
+
+  if (decision !== "confirm") {
+    await interaction.update({ content: "Bulk action cancelled.", components: [disabledRow] });
+    return;
+  }
+
+  const command = interaction.client.commands.get("bulk");
+  if (!command || !canUseCommand(interaction.member, command, "bulk")) {
+    await interaction.update({
+      content: "You no longer have permission to run bulk actions.",
+      components: [disabledRow],
+    });
+    return;
+  }
+
+  await interaction.update({
+    content: `Processing ${pending.userIds.length} users…`,
+    components: [disabledRow],
+  });
+
+  const results = await executeBulkAction(interaction.guild, interaction.member, pending);
+  const succeeded = results.filter((result) => result.success);
+  const failed = results.filter((result) => !result.success);
+
+  const resultEmbed = new EmbedBuilder()
+    .setTitle(`Bulk ${pending.type} complete`)
+    .setDescription(`Reason: ${pending.reason}`)
+    .addFields({
+      name: `Succeeded (${succeeded.length})`,
+      value: formatTargetList(
+        succeeded.map((result) => `✅ ${result.tag} • ${formatCase(result.infraction!)}`)
+      ),
+      inline: false,
+    })
+    .setColor(failed.length === 0 ? 0x00ff00 : 0xffcc00)
+    .setTimestamp();
+
+  if (failed.length > 0) {
+    resultEmbed.addFields({
+      name: `Failed (${failed.length})`,
+      value: formatTargetList(failed.map((result) => `❌ ${result.tag}: ${result.error}`)),
+      inline: false,
+    });
+  }
+
+  await interaction.editReply({ content: null, embeds: [resultEmbed], components: [] });
+  await logBulkAction(interaction.guild, interaction.member, pending, results);
+}
+
+export default {
+  customId: BULK_BUTTON_ID,
+  execute,
+  invokerOnly: true,
+  expiresAfterMs: PENDING_TTL_MS,
+};
@@ -0,0 +1,25 @@
+import { ButtonInteraction } from "discord.js";
+import { canUseCommand } from "../../services/permissions";
+import {
+  buildSearchPage,
+  decodeSearch,
+  SEARCH_BUTTON_ID,
+  SearchPageParams,
+} from "../../utils/infractionSearch";
+
+async function execute(interaction: ButtonInteraction, params: SearchPageParams): Promise<void> {
+  if (!interaction.inCachedGuild()) return;
+
+  const command = interaction.client.commands.get("infractions");
+  if (!command || !canUseCommand(interaction.member, command, "infractions search")) {
+    await interaction.reply({
+      content: "You don't have permission to search infractions.",
+      ephemeral: true,
+    });
+    return;
+  }
+
+  await interaction.update(buildSearchPage(interaction.guild.id, decodeSearch(params), params.page));
+}
+
+export default { customId: SEARCH_BUTTON_ID, execute };
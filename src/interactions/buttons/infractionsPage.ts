@@ -0,0 +1,30 @@
+import { ButtonInteraction } from "discord.js";
+import { InfractionType } from "../../database/database";
+import { canUseCommand } from "../../services/permissions";
+import { buildHistoryPage, HISTORY_BUTTON_ID } from "../../utils/infractionHistory";
+
+interface HistoryPageParams {
+  userId: string;
+  type: string;
+  page: number;
+}
+
+async function execute(interaction: ButtonInteraction, params: HistoryPageParams): Promise<void> {
+  if (!interaction.inCachedGuild()) return;
+
+  const command = interaction.client.commands.get("infractions");
+  if (!command || !canUseCommand(interaction.member, command, "infractions user")) {
+    await interaction.reply({
+      content: "You don't have permission to view infractions.",
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const type = params.type === "ALL" ? null : (params.type as InfractionType);
+  // The history is on file either way, so a failed lookup only costs the tag and avatar
+  const user = await interaction.client.users.fetch(params.userId).catch(() => null);
+  await interaction.update(buildHistoryPage(user ?? params.userId, interaction.guild.id, type, params.page));
+}
+
+export default { customId: HISTORY_BUTTON_ID, execute };
@@ -0,0 +1,33 @@
+import { ButtonInteraction } from "discord.js";
+import {
+  createPingButtonRow,
+  createPingEmbed,
+  formatUptime,
+  PING_REFRESH_ID,
+  PING_REFRESH_TTL_MS,
+} from "../../utils/ping";
+
+async function execute(interaction: ButtonInteraction): Promise<void> {
+  try {
+    const metrics = {
+      roundTripLatency: Date.now() - interaction.createdTimestamp,
+      websocketLatency: interaction.client.ws.ping,
+      uptime: formatUptime(process.uptime()),
+    };
+
+    // A fresh button restarts the expiry window
+    await interaction.update({
+      embeds: [createPingEmbed(metrics, interaction.user)],
+      components: [createPingButtonRow(interaction.user.id)],
+    });
+  } catch (error) {
+    console.error("Error refreshing ping:", error);
+  }
+}
+
+export default {
+  customId: PING_REFRESH_ID,
+  execute,
+  invokerOnly: true,
+  expiresAfterMs: PING_REFRESH_TTL_MS,
+};
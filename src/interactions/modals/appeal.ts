@@ -0,0 +1,75 @@
+import { EmbedBuilder, ModalSubmitInteraction } from "discord.js";
+import database from "../../database/database";
+import { formatCase } from "../../utils/cases";
+import {
+  APPEAL_ID,
+  AppealParams,
+  createReviewButtonRow,
+  findAppealChannel,
+  getAppealBlocker,
+} from "../../services/appeals";
+
+async function execute(
+  interaction: ModalSubmitInteraction,
+  { guildId, infractionId }: AppealParams
+): Promise<void> {
+  const content = interaction.fields.getTextInputValue("reason");
+
+  const guild = interaction.client.guilds.cache.get(guildId);
+  const channel = guild ? findAppealChannel(guild) : null;
+  if (!guild || !channel) {
+    await interaction.reply({
+      content: "Appeals are not available for this server right now. Please contact a moderator.",
+      ephemeral: true,
+    });
+    return;
+  }
+
+  // Checked again in case a second appeal was submitted from another modal
+  const blocker = getAppealBlocker(guildId, infractionId, interaction.user.id);
+  if (blocker) {
+    await interaction.reply({ content: blocker, ephemeral: true });
+    return;
+  }
+
+  const infraction = database.getInfractionById(guildId, infractionId)!;
+  const appealId = database.addAppeal(infractionId, guildId, interaction.user.id, content);
+
+  const reviewEmbed = new EmbedBuilder()
+    .setTitle(`Appeal #${appealId}`)
+    .setDescription(content)
+    .addFields(
+      { name: "User", value: `${interaction.user.tag} (${interaction.user.id})`, inline: true },
+      { name: "Infraction", value: `${infraction.type} • ${formatCase(infraction)}`, inline: true },
+      { name: "Original Reason", value: infraction.reason, inline: false },
+      { name: "Issued by", value: `<@${infraction.moderatorId}>`, inline: true },
+      {
+        name: "Issued",
+        value: `<t:${Math.floor(infraction.createdAt.getTime() / 1000)}:R>`,
+        inline: true,
+      }
+    )
+    .setColor(0x0099ff)
+    .setThumbnail(interaction.user.displayAvatarURL())
+    .setTimestamp();
+
+  try {
+    await channel.send({ embeds: [reviewEmbed], components: [createReviewButtonRow(appealId)] });
+  } catch (error) {
+    // Nobody could review it, so don't leave it blocking another attempt
+    console.error(`Failed to post appeal #${appealId} in ${guildId}:`, error);
+    database.deleteAppeal(appealId);
+    await interaction.reply({
+      content: "Your appeal could not be delivered to the moderators. Please try again later.",
+      ephemeral: true,
+    });
+    return;
+  }
+
+  await interaction.reply({
+    content: "Your appeal has been submitted. You will receive a message once staff have reviewed it.",
+    ephemeral: true,
+  });
+}
+
+export default { customId: APPEAL_ID, execute };
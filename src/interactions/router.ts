@@ -0,0 +1,200 @@
+import {
+  AnySelectMenuInteraction,
+  ButtonInteraction,
+  Collection,
+  ModalSubmitInteraction,
+} from "discord.js";
+
+export type ComponentInteraction =
+  | ButtonInteraction
+  | AnySelectMenuInteraction
+  | ModalSubmitInteraction;
+
+export type ComponentParamValue = string | number | boolean | Date;
+export type ComponentParams = Record<string, ComponentParamValue>;
+
+/**
+ * A button, select menu or modal handler. `customId` is a pattern such as
+ * `infraction:revoke:{id}` where each `{name:type}` placeholder is parsed
+ * into `params`. Supported types:
+ *
+ * - `string` (the default): anything up to the next `:`
+ * - `int`: a whole number
+ * - `snowflake`: a Discord ID, kept as a string
+ * - `bool`: `1` or `0`
+ * - `time`: a timestamp stored as base-36 seconds, parsed into a Date
+ * - `rest`: everything that's left, colons included; only valid last
+ *
+ * Everything a handler needs lives in the custom ID, so components keep
+ * working after a restart. Two parameter names are reserved: with
+ * `invokerOnly`, `{invoker:snowflake}` must match the clicking user, and
+ * with `expiresAfterMs`, `{issued:time}` decides when the component expires.
+ */
+export interface ComponentHandler<
+  I extends ComponentInteraction = ComponentInteraction,
+  P extends ComponentParams = ComponentParams,
+> {
+  customId: string;
+  execute: (interaction: I, params: P) => Promise<void>;
+  invokerOnly?: boolean;
+  expiresAfterMs?: number;
+}
+
+type ParamType = "string" | "int" | "snowflake" | "bool" | "time" | "rest";
+
+interface CompiledPattern {
+  regex: RegExp;
+  params: { name: string; type: ParamType }[];
+}
+
+// Discord rejects custom IDs longer than this
+export const MAX_CUSTOM_ID_LENGTH = 100;
+
+const PLACEHOLDER = /\{(\w+)(?::(\w+))?\}/g;
+
+const paramPatterns: Record<ParamType, string> = {
+  string: "[^:]+",
+  int: "-?\\d+",
+  snowflake: "\\d{17,20}",
+  bool: "[01]",
+  time: "[0-9a-z]+",
+  rest: ".*",
+};
+
+const compiledPatterns = new Map<string, CompiledPattern>();
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^$()|[\]\\]/g, "\\$&");
+}
+
+function compilePattern(pattern: string): CompiledPattern {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) return cached;
+
+  const params: CompiledPattern["params"] = [];
+  let source = "";
+  let lastIndex = 0;
+
+  for (const match of pattern.matchAll(PLACEHOLDER)) {
+    const type = (match[2] ?? "string") as ParamType;
+    if (!(type in paramPatterns)) {
+      throw new Error(`Unknown parameter type "${type}" in custom ID pattern ${pattern}`);
+    }
+
+    source += escapeRegex(pattern.slice(lastIndex, match.index)) + `(${paramPatterns[type]})`;
+    lastIndex = match.index! + match[0].length;
+    params.push({ name: match[1], type });
+  }
+  source += escapeRegex(pattern.slice(lastIndex));
+
+  const compiled = { regex: new RegExp(`^${source}$`), params };
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+}
+
+function parseValue(type: ParamType, raw: string): ComponentParamValue {
+  switch (type) {
+    case "int":
+      return Number.parseInt(raw, 10);
+    case "bool":
+      return raw === "1";
+    case "time":
+      return new Date(Number.parseInt(raw, 36) * 1000);
+    default:
+      return raw;
+  }
+}
+
+function formatValue(type: ParamType, value: ComponentParamValue): string {
+  switch (type) {
+    case "bool":
+      return value ? "1" : "0";
+    case "time": {
+      const ms = value instanceof Date ? value.getTime() : Number(value);
+      return Math.floor(ms / 1000).toString(36);
+    }
+    default:
+      return String(value);
+  }
+}
+
+/** Returns the parsed parameters when the custom ID fits the pattern, otherwise null. */
+export function matchCustomId(pattern: string, customId: string): ComponentParams | null {
+  const { regex, params } = compilePattern(pattern);
+  const match = regex.exec(customId);
+  if (!match) return null;
+
+  const values: ComponentParams = {};
+  params.forEach((param, index) => {
+    values[param.name] = parseValue(param.type, match[index + 1]);
+  });
+  return values;
+}
+
+/**
+ * Fills a pattern's placeholders. `issued` defaults to now. Throws when a
+ * value is missing or invalid, or the result is too long for Discord.
+ */
+export function buildCustomId(pattern: string, values: ComponentParams): string {
+  const { params } = compilePattern(pattern);
+  const filled = { ...values };
+  if (params.some((param) => param.name === "issued") && filled.issued === undefined) {
+    filled.issued = new Date();
+  }
+
+  const customId = pattern.replace(PLACEHOLDER, (_placeholder, name: string, type?: string) => {
+    if (filled[name] === undefined) {
+      throw new Error(`Missing value for {${name}} in custom ID pattern ${pattern}`);
+    }
+    return formatValue((type ?? "string") as ParamType, filled[name]);
+  });
+
+  if (customId.length > MAX_CUSTOM_ID_LENGTH || !matchCustomId(pattern, customId)) {
+    throw new Error(`Invalid custom ID "${customId}" for pattern ${pattern}`);
+  }
+  return customId;
+}
+
+async function replyEphemeral(interaction: ComponentInteraction, content: string): Promise<void> {
+  if (interaction.replied || interaction.deferred) {
+    await interaction.followUp({ content, ephemeral: true });
+  } else {
+    await interaction.reply({ content, ephemeral: true });
+  }
+}
+
+/**
+ * Finds the handler whose pattern matches the interaction's custom ID, runs
+ * the invoker and expiry checks, then calls it. Returns false when no
+ * handler matched.
+ */
+export async function routeComponent<I extends ComponentInteraction>(
+  interaction: I,
+  handlers: Collection<string, ComponentHandler<I, any>>
+): Promise<boolean> {
+  for (const handler of handlers.values()) {
+    const params = matchCustomId(handler.customId, interaction.customId);
+    if (!params) continue;
+
+    if (handler.invokerOnly && params.invoker !== interaction.user.id) {
+      await replyEphemeral(
+        interaction,
+        params.invoker ? `Only <@${params.invoker}> can use this.` : "You can't use this."
+      );
+      return true;
+    }
+
+    if (handler.expiresAfterMs !== undefined) {
+      const issued = params.issued instanceof Date ? params.issued.getTime() : 0;
+      if (Date.now() - issued > handler.expiresAfterMs) {
+        await replyEphemeral(interaction, "This has expired. Please run the command again.");
+        return true;
+      }
+    }
+
+    await handler.execute(interaction, params);
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,180 @@
+import { Client, Collection, REST } from 'discord.js';
+import { readdirSync, existsSync } from 'fs';
+import { join } from 'path';
+import { describeScope, formatDiff, getDefaultScope, syncCommands } from './services/commandDeployment';
+
+export const COMMANDS_PATH = join(__dirname, 'commands');
+export const EVENTS_PATH = join(__dirname, 'events');
+export const INTERACTIONS_PATH = join(__dirname, 'interactions');
+
+interface AttachedEvent {
+  name: string;
+  listener: (...args: any[]) => void;
+}
+
+// Remembered so a reload can find a command's file and detach old listeners
+const commandFiles = new Map<string, string>();
+const attachedEvents: AttachedEvent[] = [];
+
+function isSourceFile(file: string): boolean {
+  return (file.endsWith('.ts') && !file.endsWith('.d.ts')) || file.endsWith('.js');
+}
+
+/**
+ * Drops every cached module under `directory` so the next import reads the
+ * file from disk again. Returns the paths that were dropped.
+ */
+export function clearModuleCache(directory: string): string[] {
+  const cleared = Object.keys(require.cache).filter(path => path.startsWith(directory));
+  for (const path of cleared) {
+    delete require.cache[path];
+  }
+  return cleared;
+}
+
+export async function loadCommands(client: Client): Promise<void> {
+  try {
+    const commandFolders = readdirSync(COMMANDS_PATH, { withFileTypes: true })
+      .filter(dirent => dirent.isDirectory())
+      .map(dirent => dirent.name);
+
+    console.log(`Loading commands from folders: ${commandFolders.join(', ')}`);
+
+    const commands = new Collection<string, any>();
+    commandFiles.clear();
+
+    for (const folder of commandFolders) {
+      const folderPath = join(COMMANDS_PATH, folder);
+      const files = readdirSync(folderPath).filter(isSourceFile);
+
+      for (const file of files) {
+        const filePath = join(folderPath, file);
+        try {
+          const command = await import(filePath);
+          if ('data' in command.default && 'execute' in command.default) {
+            commands.set(command.default.data.name, command.default);
+            commandFiles.set(command.default.data.name, filePath);
+            console.log(`Loaded command: ${command.default.data.name} from ${filePath}`);
+          } else {
+            console.warn(`Command in ${filePath} is missing required properties.`);
+          }
+        } catch (error) {
+          console.error(`Error loading command from ${filePath}:`, error);
+        }
+      }
+    }
+
+    // Swap in one go so interactions never see a half-loaded collection
+    client.commands.clear();
+    for (const [name, command] of commands) {
+      client.commands.set(name, command);
+    }
+    console.log(`Loaded ${client.commands.size} commands.`);
+  } catch (error) {
+    console.error(`Error loading commands: ${error}`);
+  }
+}
+
+/** Re-imports a single command from disk. Returns false when no command has that name. */
+export async function reloadCommand(client: Client, name: string): Promise<boolean> {
+  const filePath = commandFiles.get(name);
+  if (!filePath) return false;
+
+  delete require.cache[require.resolve(filePath)];
+  const command = await import(filePath);
+  if (!('data' in command.default && 'execute' in command.default)) {
+    throw new Error(`Command in ${filePath} is missing required properties.`);
+  }
+
+  client.commands.delete(name);
+  commandFiles.delete(name);
+  client.commands.set(command.default.data.name, command.default);
+  commandFiles.set(command.default.data.name, filePath);
+  console.log(`Reloaded command: ${command.default.data.name} from ${filePath}`);
+  return true;
+}
+
+/** Attaches every event module's listener, detaching any attached by an earlier load. */
+export async function loadEvents(client: Client): Promise<void> {
+  try {
+    if (!existsSync(EVENTS_PATH)) {
+      console.log('Events directory not found. Skipping event loading.');
+      return;
+    }
+
+    for (const { name, listener } of attachedEvents.splice(0)) {
+      client.off(name, listener);
+    }
+
+    const eventFiles = readdirSync(EVENTS_PATH).filter(isSourceFile);
+
+    for (const file of eventFiles) {
+      const filePath = join(EVENTS_PATH, file);
+      const event = await import(filePath);
+
+      if ('name' in event && 'execute' in event) {
+        const listener = (...args: any[]) => event.execute(...args);
+        if (event.once) {
+          client.once(event.name, listener);
+        } else {
+          client.on(event.name, listener);
+        }
+        attachedEvents.push({ name: event.name, listener });
+        console.log(`Loaded Event: ${event.name} (${event.once ? 'once' : 'on'})`);
+      } else {
+        console.log(`Event at ${filePath} is missing required properties.`);
+      }
+    }
+    console.log(`Total Events Loaded: ${eventFiles.length}`);
+  } catch (error) {
+    console.error('Error loading events:', error);
+  }
+}
+
+export async function loadInteractions(client: Client): Promise<void> {
+  try {
+    client.buttons.clear();
+    client.modals.clear();
+    client.selectMenus.clear();
+
+    await loadComponents(join(INTERACTIONS_PATH, 'buttons'), client.buttons, 'button');
+    await loadComponents(join(INTERACTIONS_PATH, 'modals'), client.modals, 'modal');
+    await loadComponents(join(INTERACTIONS_PATH, 'selectMenus'), client.selectMenus, 'select menu');
+
+    console.log(`Total interactions loaded: ${client.buttons.size + client.modals.size + client.selectMenus.size}`);
+  } catch (error) {
+    console.error('Error loading interactions:', error);
+  }
+}
+
+async function loadComponents(
+  directory: string,
+  collection: Collection<string, any>,
+  label: string
+): Promise<void> {
+  if (!existsSync(directory)) return;
+
+  for (const file of readdirSync(directory).filter(isSourceFile)) {
+    const filePath = join(directory, file);
+    const component = await import(filePath);
+
+    if ('customId' in component.default && 'execute' in component.default) {
+      collection.set(component.default.customId, component.default);
+      console.log(`Loaded ${label}: ${component.default.customId} from ${filePath}`);
+    }
+  }
+}
+
+export async function deployCommands(client: Client): Promise<void> {
+  const commands = [...client.commands.values()].map(command => command.data.toJSON());
+  const scope = getDefaultScope();
+  const rest = new REST({ version: '10' }).setToken(process.env.DISCORD_TOKEN as string);
+
+  try {
+    console.log(`Syncing application (/) commands (${describeScope(scope)}).`);
+    const diff = await syncCommands(rest, process.env.CLIENT_ID as string, scope, commands);
+    console.log(`Application (/) commands synced: ${formatDiff(diff)}.`);
+  } catch (error) {
+    console.error('Error deploying commands:', error);
+  }
+}
@@ -0,0 +1,108 @@
+import { REST } from 'discord.js';
+import { config } from 'dotenv';
+import { join } from 'path';
+import {
+  clearCommands,
+  DeployScope,
+  describeScope,
+  diffCommands,
+  fetchRegisteredCommands,
+  formatDiff,
+  getDefaultScope,
+  loadCommandBodies,
+  syncCommands
+} from '../services/commandDeployment';
+
+/*
+ * Registers the bot's slash commands without starting the bot.
+ *
+ *   npm run deploy                          sync to DEV_GUILD_ID if set, otherwise globally
+ *   npm run deploy -- --guild [id]          sync to a guild (defaults to DEV_GUILD_ID)
+ *   npm run deploy -- --global              sync globally
+ *   npm run deploy -- --clear               remove every command from the chosen scope
+ *   npm run deploy -- --dry-run             show what would change without sending it
+ *
+ * Only commands that differ from what Discord has registered are sent.
+ */
+
+interface DeployOptions {
+  scope: DeployScope;
+  clear: boolean;
+  dryRun: boolean;
+}
+
+function parseArgs(args: string[]): DeployOptions {
+  let scope = getDefaultScope();
+  let clear = false;
+  let dryRun = false;
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--global':
+        scope = { kind: 'global' };
+        break;
+      case '--guild': {
+        const next = args[i + 1];
+        const guildId = next && !next.startsWith('--') ? args[++i] : process.env.DEV_GUILD_ID?.trim();
+        if (!guildId || !/^\d{17,20}$/.test(guildId)) {
+          throw new Error('--guild needs a guild ID, either after the flag or in DEV_GUILD_ID.');
+        }
+        scope = { kind: 'guild', guildId };
+        break;
+      }
+      case '--clear':
+        clear = true;
+        break;
+      case '--dry-run':
+        dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown option "${args[i]}". Use --guild [id], --global, --clear or --dry-run.`);
+    }
+  }
+
+  return { scope, clear, dryRun };
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set. Add it to your environment or .env file.`);
+  }
+  return value;
+}
+
+async function main(): Promise<void> {
+  config();
+  const options = parseArgs(process.argv.slice(2));
+  const clientId = requireEnv('CLIENT_ID');
+  const rest = new REST({ version: '10' }).setToken(requireEnv('DISCORD_TOKEN'));
+  const target = describeScope(options.scope);
+
+  if (options.clear) {
+    if (options.dryRun) {
+      console.log(`Would remove every command from ${target}.`);
+      return;
+    }
+    const removed = await clearCommands(rest, clientId, options.scope);
+    console.log(`Removed ${removed} command(s) from ${target}.`);
+    return;
+  }
+
+  const commands = await loadCommandBodies(join(__dirname, '..', 'commands'));
+
+  if (options.dryRun) {
+    const registered = await fetchRegisteredCommands(rest, clientId, options.scope);
+    console.log(`Dry run (${target}): ${formatDiff(diffCommands(commands, registered))}.`);
+    return;
+  }
+
+  console.log(`Syncing ${commands.length} command(s) to ${target}...`);
+  const diff = await syncCommands(rest, clientId, options.scope, commands);
+  console.log(`Done: ${formatDiff(diff)}.`);
+}
+
+main().catch(error => {
+  console.error('Deploy failed:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,71 @@
+import Database from 'better-sqlite3';
+import { DATABASE_PATH, ensureDataDir } from '../database/paths';
+import {
+  getLatestVersion,
+  getPendingMigrations,
+  getSchemaVersion,
+  runMigrations,
+  SchemaTooNewError
+} from '../database/migrator';
+
+// Usage: npm run migrate [status|up]
+// Opens the database directly so the bot's own startup migration never runs here.
+
+function printStatus(db: Database.Database): void {
+  const pending = getPendingMigrations(db);
+
+  console.log(`Database: ${DATABASE_PATH}`);
+  console.log(`Schema version: ${getSchemaVersion(db)} (latest ${getLatestVersion()})`);
+
+  if (pending.length === 0) {
+    console.log('No pending migrations.');
+    return;
+  }
+
+  console.log(`${pending.length} pending migration(s):`);
+  for (const migration of pending) {
+    console.log(`  ${migration.version} ${migration.name}`);
+  }
+}
+
+function applyPending(db: Database.Database): void {
+  const applied = runMigrations(db, migration =>
+    console.log(`Applied ${migration.version} ${migration.name}`)
+  );
+
+  console.log(
+    applied.length > 0
+      ? `Database schema is now at version ${getSchemaVersion(db)}.`
+      : 'Database schema is already up to date.'
+  );
+}
+
+function main(): void {
+  const command = process.argv[2] ?? 'status';
+  if (command !== 'status' && command !== 'up') {
+    console.error(`Unknown command "${command}". Use "status" or "up".`);
+    process.exit(1);
+  }
+
+  ensureDataDir();
+  const db = new Database(DATABASE_PATH);
+
+  try {
+    if (command === 'up') {
+      applyPending(db);
+    } else {
+      printStatus(db);
+    }
+  } catch (error) {
+    if (error instanceof SchemaTooNewError) {
+      console.error(error.message);
+    } else {
+      console.error('Migration failed:', error);
+    }
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,118 @@
+import Database from 'better-sqlite3';
+import { copyFileSync, existsSync, renameSync, unlinkSync } from 'fs';
+import { basename, join } from 'path';
+import { getBackupConfig, listBackups, verifyBackup } from '../database/backupFiles';
+import { getLatestVersion, getSchemaVersion } from '../database/migrator';
+import { DATABASE_PATH, ensureDataDir } from '../database/paths';
+
+/*
+ * Restores the database from a backup. Stop the bot before running this.
+ *
+ *   npm run restore -- list                 show the available backups
+ *   npm run restore -- <file>               restore a backup by file name or path
+ *
+ * The backup is integrity-checked and its schema version compared with this
+ * build before anything is touched. The current database is then renamed to
+ * `bot.db.pre-restore-<timestamp>` (so a bad restore can be undone by hand),
+ * its WAL files are removed and the backup is copied into place. Pending
+ * migrations are applied the next time the bot starts.
+ */
+
+function resolveBackupPath(input: string): string | null {
+  if (existsSync(input)) return input;
+
+  const inBackupDir = join(getBackupConfig().directory, basename(input));
+  return existsSync(inBackupDir) ? inBackupDir : null;
+}
+
+// Best-effort check that the bot is stopped: a running bot keeps an exclusive
+// lock from being taken. Folding the WAL back in first means the copy kept
+// aside below is complete on its own.
+function checkpointIdleDatabase(): void {
+  if (!existsSync(DATABASE_PATH)) return;
+
+  const db = new Database(DATABASE_PATH, { timeout: 0 });
+  try {
+    db.pragma('locking_mode = EXCLUSIVE');
+    db.exec('BEGIN EXCLUSIVE; COMMIT;');
+    db.pragma('wal_checkpoint(TRUNCATE)');
+  } catch {
+    throw new Error('The database is in use. Stop the bot before restoring a backup.');
+  } finally {
+    db.close();
+  }
+}
+
+function printBackups(): void {
+  const backups = listBackups();
+  if (backups.length === 0) {
+    console.log('No backups found.');
+    return;
+  }
+
+  for (const backup of backups) {
+    console.log(`${backup.file}  ${backup.size} bytes  ${backup.createdAt.toISOString()}`);
+  }
+}
+
+function restore(input: string): void {
+  const backupPath = resolveBackupPath(input);
+  if (!backupPath) {
+    throw new Error(`Backup "${input}" was not found.`);
+  }
+
+  const problems = verifyBackup(backupPath);
+  if (problems.length > 0) {
+    throw new Error(`Backup failed its integrity check: ${problems.slice(0, 3).join('; ')}`);
+  }
+
+  const backup = new Database(backupPath, { readonly: true });
+  const backupVersion = getSchemaVersion(backup);
+  backup.close();
+  if (backupVersion > getLatestVersion()) {
+    throw new Error(
+      `Backup is at schema version ${backupVersion} but this build only knows up to ${getLatestVersion()}.`
+    );
+  }
+
+  ensureDataDir();
+  checkpointIdleDatabase();
+
+  if (existsSync(DATABASE_PATH)) {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    const previousPath = `${DATABASE_PATH}.pre-restore-${stamp}`;
+    renameSync(DATABASE_PATH, previousPath);
+    console.log(`Previous database moved to ${previousPath}`);
+  }
+
+  // Leftover WAL files would otherwise be replayed on top of the restored copy
+  for (const suffix of ['-wal', '-shm']) {
+    if (existsSync(`${DATABASE_PATH}${suffix}`)) {
+      unlinkSync(`${DATABASE_PATH}${suffix}`);
+    }
+  }
+
+  copyFileSync(backupPath, DATABASE_PATH);
+  console.log(`Restored ${basename(backupPath)} (schema version ${backupVersion}). You can start the bot again.`);
+}
+
+function main(): void {
+  const argument = process.argv[2];
+  if (!argument) {
+    console.error('Usage: npm run restore -- <backup file> | list');
+    process.exit(1);
+  }
+
+  try {
+    if (argument === 'list') {
+      printBackups();
+    } else {
+      restore(argument);
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,128 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  Client,
+  EmbedBuilder,
+  Guild,
+  GuildTextBasedChannel,
+} from "discord.js";
+import database, { Appeal, AppealStatus, InfractionStatus, ModLogEvent } from "../database/database";
+import { findLogChannel } from "./modLog";
+import { formatCase } from "../utils/cases";
+import { buildCustomId } from "../interactions/router";
+
+// DMs carry no guild, so the guild travels with the button. The internal
+// infraction ID is used rather than the case number so buttons in old DMs
+// keep resolving. The appeal modal reuses the same custom ID.
+export const APPEAL_ID = "appeal:{guildId:snowflake}:{infractionId}";
+export const APPEAL_REVIEW_ID = "appeal-review:{decision}:{appealId:int}";
+
+export interface AppealParams {
+  guildId: string;
+  infractionId: string;
+}
+
+export interface AppealReviewParams {
+  decision: "accept" | "deny";
+  appealId: number;
+}
+export const MAX_APPEALS_PER_INFRACTION = 3;
+export const APPEAL_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function createAppealButtonRow(
+  guildId: string,
+  infractionId: string
+): ActionRowBuilder<ButtonBuilder> {
+  const appealButton = new ButtonBuilder()
+    .setCustomId(buildCustomId(APPEAL_ID, { guildId, infractionId }))
+    .setLabel("Appeal")
+    .setEmoji("📨")
+    .setStyle(ButtonStyle.Primary);
+
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(appealButton);
+}
+
+export function createReviewButtonRow(
+  appealId: number,
+  disabled = false
+): ActionRowBuilder<ButtonBuilder> {
+  const acceptButton = new ButtonBuilder()
+    .setCustomId(buildCustomId(APPEAL_REVIEW_ID, { decision: "accept", appealId }))
+    .setLabel("Accept")
+    .setStyle(ButtonStyle.Success)
+    .setDisabled(disabled);
+
+  const denyButton = new ButtonBuilder()
+    .setCustomId(buildCustomId(APPEAL_REVIEW_ID, { decision: "deny", appealId }))
+    .setLabel("Deny")
+    .setStyle(ButtonStyle.Danger)
+    .setDisabled(disabled);
+
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(acceptButton, denyButton);
+}
+
+/**
+ * Returns why the user can't appeal this infraction right now, or null when
+ * they can. Each infraction allows one open appeal at a time, a cooldown
+ * after a denial and a fixed number of attempts overall.
+ */
+export function getAppealBlocker(guildId: string, infractionId: string, userId: string): string | null {
+  const infraction = database.getInfractionById(guildId, infractionId);
+  if (!infraction || infraction.userId !== userId) {
+    return "That infraction could not be found.";
+  }
+
+  if (infraction.status !== InfractionStatus.ACTIVE) {
+    return `This infraction has already been ${infraction.status.toLowerCase()}.`;
+  }
+
+  const appeals = database.getInfractionAppeals(infractionId);
+  if (appeals.some((appeal) => appeal.status === AppealStatus.PENDING)) {
+    return "You already have an appeal waiting for review for this infraction.";
+  }
+
+  if (appeals.length >= MAX_APPEALS_PER_INFRACTION) {
+    return `You have reached the limit of ${MAX_APPEALS_PER_INFRACTION} appeals for this infraction.`;
+  }
+
+  const lastReview = appeals[0]?.reviewedAt;
+  if (lastReview && Date.now() - lastReview.getTime() < APPEAL_COOLDOWN_MS) {
+    const retryAt = Math.floor((lastReview.getTime() + APPEAL_COOLDOWN_MS) / 1000);
+    return `Your last appeal was reviewed recently. You can appeal again <t:${retryAt}:R>.`;
+  }
+
+  return null;
+}
+
+export function findAppealChannel(guild: Guild): GuildTextBasedChannel | null {
+  const { appealChannelId } = database.getGuildSettings(guild.id);
+  if (!appealChannelId) return findLogChannel(guild, ModLogEvent.APPEAL);
+
+  const channel = guild.channels.cache.get(appealChannelId);
+  return channel && channel.isTextBased() ? channel : null;
+}
+
+export async function notifyAppealResult(client: Client, appeal: Appeal, guild: Guild): Promise<void> {
+  const accepted = appeal.status === AppealStatus.ACCEPTED;
+  const infraction = database.getInfractionById(appeal.guildId, appeal.infractionId);
+  const label = infraction ? formatCase(infraction) : "your infraction";
+
+  try {
+    const user = await client.users.fetch(appeal.userId);
+    const embed = new EmbedBuilder()
+      .setTitle(`Appeal ${accepted ? "Accepted" : "Denied"}`)
+      .setDescription(
+        accepted
+          ? `Your appeal for ${label} in ${guild.name} was accepted and the infraction has been revoked.`
+          : `Your appeal for ${label} in ${guild.name} was denied.`
+      )
+      .setColor(accepted ? 0x00ff00 : 0xff0000)
+      .setTimestamp()
+      .setFooter({ text: guild.name, iconURL: guild.iconURL() || undefined });
+
+    await user.send({ embeds: [embed] });
+  } catch (error) {
+    console.error(`Failed to notify user of appeal ${appeal.id}:`, error);
+  }
+}
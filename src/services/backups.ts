@@ -0,0 +1,86 @@
+import { existsSync, mkdirSync, statSync, unlinkSync } from "fs";
+import { join } from "path";
+import database from "../database/database";
+import {
+  backupFileName,
+  BackupConfig,
+  BackupInfo,
+  getBackupConfig,
+  listBackups,
+  rotateBackups,
+  verifyBackup,
+} from "../database/backupFiles";
+
+const HOUR_MS = 60 * 60 * 1000;
+// setInterval treats anything above this as 1ms
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Writes an online backup of the live database, verifies it and then rotates
+ * old backups. A backup that fails verification is deleted and the error is
+ * rethrown, leaving the existing backups untouched.
+ */
+export async function createBackup(config: BackupConfig = getBackupConfig()): Promise<BackupInfo> {
+  if (!existsSync(config.directory)) {
+    mkdirSync(config.directory, { recursive: true });
+  }
+
+  const createdAt = new Date();
+  const file = backupFileName(createdAt);
+  const path = join(config.directory, file);
+
+  await database.backup(path);
+
+  const problems = verifyBackup(path);
+  if (problems.length > 0) {
+    unlinkSync(path);
+    throw new Error(`Backup ${file} failed its integrity check: ${problems.slice(0, 3).join("; ")}`);
+  }
+
+  const removed = rotateBackups(config);
+  if (removed.length > 0) {
+    console.log(`Rotated out ${removed.length} old backup(s).`);
+  }
+
+  return { file, path, size: statSync(path).size, createdAt };
+}
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Backs the database up on the configured interval. If the newest backup is
+ * already older than the interval when the bot starts, one is taken straight
+ * away so frequent restarts don't keep postponing it.
+ */
+export function startBackupScheduler(): void {
+  if (timer) return;
+
+  const config = getBackupConfig();
+  if (config.intervalMs === 0) {
+    console.log("Scheduled backups are disabled.");
+    return;
+  }
+
+  const [latest] = listBackups(config);
+  if (!latest || Date.now() - latest.createdAt.getTime() >= config.intervalMs) {
+    void runScheduledBackup();
+  }
+
+  timer = setInterval(() => void runScheduledBackup(), Math.min(config.intervalMs, MAX_TIMER_MS));
+  console.log(`Backup scheduler started (every ${config.intervalMs / HOUR_MS}h).`);
+}
+
+async function runScheduledBackup(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    const backup = await createBackup();
+    console.log(`Database backed up to ${backup.path}`);
+  } catch (error) {
+    console.error("Scheduled backup failed:", error);
+  } finally {
+    running = false;
+  }
+}
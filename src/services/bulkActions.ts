@@ -0,0 +1,359 @@
+import { randomBytes } from "crypto";
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  Guild,
+  GuildMember,
+  User,
+} from "discord.js";
+import database, { DmStatus, Infraction, InfractionType, ModLogEvent } from "../database/database";
+import {
+  formatDmStatus,
+  getHierarchyError,
+  PunishmentDetails,
+  sendPunishmentMessageToUser,
+} from "../utils/moderation";
+import { sendModLog } from "./modLog";
+import { formatCase } from "../utils/cases";
+import { formatDuration } from "../utils/duration";
+import { buildCustomId } from "../interactions/router";
+
+export const BULK_BUTTON_ID = "bulk:{decision}:{token}:{invoker:snowflake}:{issued:time}";
+export const MAX_BULK_TARGETS = 25;
+// Pending actions only live in memory, so a restart also cancels them
+export const PENDING_TTL_MS = 5 * 60 * 1000;
+
+export type BulkActionType =
+  | InfractionType.WARN
+  | InfractionType.TIMEOUT
+  | InfractionType.KICK
+  | InfractionType.BAN;
+
+export interface PendingBulkAction {
+  token: string;
+  guildId: string;
+  moderatorId: string;
+  type: BulkActionType;
+  userIds: string[];
+  reason: string;
+  durationMs?: number;
+  points?: number;
+  expiresAt: number;
+}
+
+export interface BulkTargetCheck {
+  userId: string;
+  user?: User;
+  member?: GuildMember;
+  error?: string;
+}
+
+export interface BulkTargetResult {
+  userId: string;
+  tag: string;
+  success: boolean;
+  infraction?: Infraction;
+  dmStatus?: DmStatus;
+  error?: string;
+}
+
+const verbs: Record<BulkActionType, string> = {
+  [InfractionType.WARN]: "warn",
+  [InfractionType.TIMEOUT]: "time out",
+  [InfractionType.KICK]: "kick",
+  [InfractionType.BAN]: "ban",
+};
+
+const pendingActions = new Map<string, PendingBulkAction>();
+
+/**
+ * Pulls user IDs out of pasted text. Mentions, bare IDs and any separator
+ * work; duplicates are dropped while keeping the original order.
+ */
+export function parseUserIds(input: string): string[] {
+  const ids = [...input.matchAll(/(?:<@!?)?(\d{17,20})>?/g)].map((match) => match[1]);
+  return [...new Set(ids)];
+}
+
+export function createPendingAction(
+  action: Omit<PendingBulkAction, "token" | "expiresAt">
+): PendingBulkAction {
+  const now = Date.now();
+  for (const [token, pending] of pendingActions) {
+    if (pending.expiresAt <= now) pendingActions.delete(token);
+  }
+
+  const pending = {
+    ...action,
+    token: randomBytes(6).toString("hex"),
+    expiresAt: now + PENDING_TTL_MS,
+  };
+  pendingActions.set(pending.token, pending);
+  return pending;
+}
+
+/** Removes and returns the pending action, so it can only be confirmed once. */
+export function takePendingAction(token: string): PendingBulkAction | null {
+  const pending = pendingActions.get(token);
+  pendingActions.delete(token);
+  return pending && pending.expiresAt > Date.now() ? pending : null;
+}
+
+export function getPendingAction(token: string): PendingBulkAction | null {
+  const pending = pendingActions.get(token);
+  return pending && pending.expiresAt > Date.now() ? pending : null;
+}
+
+export interface BulkButtonParams {
+  decision: "confirm" | "cancel";
+  token: string;
+  invoker: string;
+}
+
+export function createBulkButtonRow(
+  pending: PendingBulkAction,
+  disabled = false
+): ActionRowBuilder<ButtonBuilder> {
+  const ids = { token: pending.token, invoker: pending.moderatorId };
+  const confirmButton = new ButtonBuilder()
+    .setCustomId(buildCustomId(BULK_BUTTON_ID, { ...ids, decision: "confirm" }))
+    .setLabel("Confirm")
+    .setStyle(ButtonStyle.Danger)
+    .setDisabled(disabled);
+
+  const cancelButton = new ButtonBuilder()
+    .setCustomId(buildCustomId(BULK_BUTTON_ID, { ...ids, decision: "cancel" }))
+    .setLabel("Cancel")
+    .setStyle(ButtonStyle.Secondary)
+    .setDisabled(disabled);
+
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(confirmButton, cancelButton);
+}
+
+/**
+ * Runs the same checks as the single-target commands: the target must be in
+ * the server (except for bans), below both the bot and the moderator, and
+ * not already banned.
+ */
+export async function checkTargets(
+  guild: Guild,
+  moderator: GuildMember,
+  type: BulkActionType,
+  userIds: string[]
+): Promise<BulkTargetCheck[]> {
+  const verb = verbs[type];
+  const checks: BulkTargetCheck[] = [];
+
+  for (const userId of userIds) {
+    const member = await guild.members.fetch(userId).catch(() => null);
+    const user = member?.user ?? (await guild.client.users.fetch(userId).catch(() => null));
+
+    if (!user) {
+      checks.push({ userId, error: "Unknown user." });
+      continue;
+    }
+
+    if (user.id === moderator.id) {
+      checks.push({ userId, user, error: `You cannot ${verb} yourself.` });
+      continue;
+    }
+
+    if (!member) {
+      if (type !== InfractionType.BAN) {
+        checks.push({ userId, user, error: "Not in this server." });
+        continue;
+      }
+    } else {
+      const hierarchyError = getHierarchyError(moderator, member, guild, verb);
+      const allowed =
+        type === InfractionType.WARN ||
+        (type === InfractionType.TIMEOUT && member.moderatable) ||
+        (type === InfractionType.KICK && member.kickable) ||
+        (type === InfractionType.BAN && member.bannable);
+      if (hierarchyError || !allowed) {
+        checks.push({ userId, user, member, error: hierarchyError ?? `I cannot ${verb} them.` });
+        continue;
+      }
+    }
+
+    if (type === InfractionType.BAN && (await guild.bans.fetch(userId).catch(() => null))) {
+      checks.push({ userId, user, error: "Already banned." });
+      continue;
+    }
+
+    checks.push({ userId, user, member: member ?? undefined });
+  }
+
+  return checks;
+}
+
+/**
+ * Applies a confirmed bulk action. Targets are re-checked, every infraction
+ * is recorded in one transaction, then the punishment is applied and DMed per
+ * user. A failed punishment revokes its infraction like the single-target
+ * commands do. Automatic escalation is not evaluated for bulk warnings.
+ */
+export async function executeBulkAction(
+  guild: Guild,
+  moderator: GuildMember,
+  action: PendingBulkAction
+): Promise<BulkTargetResult[]> {
+  const checks = await checkTargets(guild, moderator, action.type, action.userIds);
+  const eligible = checks.filter((check) => !check.error);
+  const expiresAt =
+    action.durationMs && action.type !== InfractionType.KICK
+      ? new Date(Date.now() + action.durationMs)
+      : undefined;
+
+  const infractions = database.transaction(() =>
+    eligible.map((check) =>
+      database.addInfraction(check.userId, guild.id, moderator.id, action.type, action.reason, {
+        expiresAt,
+        points: action.type === InfractionType.WARN ? action.points : undefined,
+      })
+    )
+  );
+
+  const results: BulkTargetResult[] = checks
+    .filter((check) => check.error)
+    .map((check) => ({
+      userId: check.userId,
+      tag: check.user?.tag ?? check.userId,
+      success: false,
+      error: check.error,
+    }));
+
+  for (const [index, check] of eligible.entries()) {
+    const infraction = infractions[index];
+    const user = check.user!;
+    const details: PunishmentDetails = {
+      type: action.type,
+      reason: action.reason,
+      moderator: moderator.user.tag,
+      infraction,
+      duration: action.durationMs ? formatDuration(action.durationMs) : undefined,
+    };
+
+    try {
+      const dmStatus = await applyPunishment(guild, moderator, action, check, details);
+      results.push({ userId: user.id, tag: user.tag, success: true, infraction, dmStatus });
+    } catch (error) {
+      console.error(`Bulk ${action.type} failed for ${user.id}:`, error);
+      database.revokeInfraction(
+        guild.id,
+        infraction.id,
+        guild.client.user.id,
+        "Bulk action could not be applied"
+      );
+      results.push({
+        userId: user.id,
+        tag: user.tag,
+        success: false,
+        error: `Could not ${verbs[action.type]} them.`,
+      });
+    }
+  }
+
+  return results.sort(
+    (a, b) => action.userIds.indexOf(a.userId) - action.userIds.indexOf(b.userId)
+  );
+}
+
+/** Returns how the DM went, or undefined when none was attempted. */
+async function applyPunishment(
+  guild: Guild,
+  moderator: GuildMember,
+  action: PendingBulkAction,
+  check: BulkTargetCheck,
+  details: PunishmentDetails
+): Promise<DmStatus | undefined> {
+  const auditReason = `${moderator.user.tag} (bulk): ${action.reason}`;
+
+  switch (action.type) {
+    case InfractionType.WARN:
+      return await sendPunishmentMessageToUser(check.user!, guild, details);
+    case InfractionType.TIMEOUT:
+      await check.member!.timeout(action.durationMs!, auditReason);
+      return await sendPunishmentMessageToUser(check.user!, guild, details);
+    case InfractionType.KICK: {
+      // DM before removing them while we still share a server
+      const dmStatus = await sendPunishmentMessageToUser(check.user!, guild, details);
+      await check.member!.kick(auditReason);
+      return dmStatus;
+    }
+    case InfractionType.BAN: {
+      const dmStatus = check.member
+        ? await sendPunishmentMessageToUser(check.user!, guild, details)
+        : undefined;
+      await guild.members.ban(check.userId, { reason: auditReason });
+      return dmStatus;
+    }
+  }
+}
+
+/** Fits a list of lines into one embed field, summarising what doesn't fit. */
+export function formatTargetList(lines: string[], limit = 1024): string {
+  if (lines.length === 0) return "None";
+
+  const shown: string[] = [];
+  let length = 0;
+  for (const [index, line] of lines.entries()) {
+    // Leave room for the "…and N more" line
+    if (length + line.length + 1 > limit - 20) {
+      shown.push(`…and ${lines.length - index} more`);
+      break;
+    }
+    shown.push(line);
+    length += line.length + 1;
+  }
+
+  return shown.join("\n");
+}
+
+export async function logBulkAction(
+  guild: Guild,
+  moderator: GuildMember,
+  action: PendingBulkAction,
+  results: BulkTargetResult[]
+): Promise<void> {
+  const succeeded = results.filter((result) => result.success);
+  const failed = results.filter((result) => !result.success);
+
+  const fields = [
+    { name: "Succeeded", value: `${succeeded.length}`, inline: true },
+    { name: "Failed", value: `${failed.length}`, inline: true },
+    {
+      name: "Users",
+      value: formatTargetList(
+        succeeded.map(
+          (result) =>
+            `${result.tag} (${result.userId}) • ${formatCase(result.infraction!)} • DM: ${formatDmStatus(
+              result.dmStatus
+            )}`
+        )
+      ),
+      inline: false,
+    },
+  ];
+
+  if (failed.length > 0) {
+    fields.push({
+      name: "Not actioned",
+      value: formatTargetList(failed.map((result) => `${result.tag}: ${result.error}`)),
+      inline: false,
+    });
+  }
+
+  await sendModLog(guild, {
+    event: ModLogEvent.PUNISHMENT,
+    title: `Bulk ${action.type}`,
+    color: 0xff6b35,
+    description: `Reason: ${action.reason}`,
+    moderator: moderator.user.tag,
+    fields,
+    summary: `Bulk ${action.type} by ${moderator.user.tag}: ${succeeded.length} succeeded, ${
+      failed.length
+    } failed (Reason: ${action.reason})`,
+  });
+}
@@ -0,0 +1,204 @@
+import {
+  APIApplicationCommand,
+  REST,
+  RESTPostAPIApplicationCommandsJSONBody,
+  Routes,
+} from "discord.js";
+import { readdirSync } from "fs";
+import { join } from "path";
+
+export type CommandBody = RESTPostAPIApplicationCommandsJSONBody;
+
+/** Where commands are registered: every guild, or a single (test) guild. */
+export type DeployScope = { kind: "global" } | { kind: "guild"; guildId: string };
+
+export interface CommandDiff {
+  added: CommandBody[];
+  changed: { body: CommandBody; id: string }[];
+  removed: APIApplicationCommand[];
+  unchanged: number;
+}
+
+// Fields Discord fills in on registered commands that our builders leave unset
+const SERVER_FIELDS = [
+  "id",
+  "application_id",
+  "guild_id",
+  "version",
+  "type",
+  "default_permission",
+  "dm_permission",
+  "nsfw",
+  "contexts",
+  "integration_types",
+  "handler",
+];
+
+/**
+ * Deploys to `DEV_GUILD_ID` when it is set. Guild commands update instantly,
+ * whereas global ones can take a while to reach every client.
+ */
+export function getDefaultScope(): DeployScope {
+  const guildId = process.env.DEV_GUILD_ID?.trim();
+  return guildId ? { kind: "guild", guildId } : { kind: "global" };
+}
+
+export function describeScope(scope: DeployScope): string {
+  return scope.kind === "guild" ? `guild ${scope.guildId}` : "global";
+}
+
+/** Imports every command module under `commandsPath` and returns its JSON body. */
+export async function loadCommandBodies(commandsPath: string): Promise<CommandBody[]> {
+  const bodies: CommandBody[] = [];
+  const folders = readdirSync(commandsPath, { withFileTypes: true })
+    .filter((dirent) => dirent.isDirectory())
+    .map((dirent) => dirent.name);
+
+  for (const folder of folders) {
+    const folderPath = join(commandsPath, folder);
+    const files = readdirSync(folderPath).filter((file) => file.endsWith(".ts") || file.endsWith(".js"));
+
+    for (const file of files) {
+      const command = await import(join(folderPath, file));
+      if (command.default && "data" in command.default) {
+        bodies.push(command.default.data.toJSON());
+      }
+    }
+  }
+
+  return bodies;
+}
+
+function commandsRoute(clientId: string, scope: DeployScope): `/${string}` {
+  return scope.kind === "guild"
+    ? Routes.applicationGuildCommands(clientId, scope.guildId)
+    : Routes.applicationCommands(clientId);
+}
+
+function commandRoute(clientId: string, scope: DeployScope, commandId: string): `/${string}` {
+  return scope.kind === "guild"
+    ? Routes.applicationGuildCommand(clientId, scope.guildId, commandId)
+    : Routes.applicationCommand(clientId, commandId);
+}
+
+// Unset, null, false and empty values all mean "use the default" to Discord
+function isUnset(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === false ||
+    (Array.isArray(value) && value.length === 0) ||
+    (typeof value === "object" && !Array.isArray(value) && Object.keys(value as object).length === 0)
+  );
+}
+
+function isSame(local: unknown, remote: unknown): boolean {
+  if (isUnset(local) && isUnset(remote)) return true;
+
+  if (Array.isArray(local) || Array.isArray(remote)) {
+    return (
+      Array.isArray(local) &&
+      Array.isArray(remote) &&
+      local.length === remote.length &&
+      local.every((item, index) => isSame(item, remote[index]))
+    );
+  }
+
+  if (typeof local === "object" && typeof remote === "object" && local && remote) {
+    const localRecord = local as Record<string, unknown>;
+    const remoteRecord = remote as Record<string, unknown>;
+    const keys = new Set([...Object.keys(localRecord), ...Object.keys(remoteRecord)]);
+    return [...keys].every((key) => isSame(localRecord[key], remoteRecord[key]));
+  }
+
+  return local === remote;
+}
+
+function isCommandSame(local: CommandBody, remote: APIApplicationCommand): boolean {
+  const localRecord = local as unknown as Record<string, unknown>;
+  const trimmed: Record<string, unknown> = { ...remote };
+  for (const field of SERVER_FIELDS) {
+    if (localRecord[field] === undefined) {
+      delete trimmed[field];
+    }
+  }
+  return isSame(local, trimmed);
+}
+
+export function diffCommands(local: CommandBody[], registered: APIApplicationCommand[]): CommandDiff {
+  const diff: CommandDiff = { added: [], changed: [], removed: [], unchanged: 0 };
+  const remaining = new Map(registered.map((command) => [command.name, command]));
+
+  for (const body of local) {
+    const existing = remaining.get(body.name);
+    remaining.delete(body.name);
+
+    if (!existing) {
+      diff.added.push(body);
+    } else if (isCommandSame(body, existing)) {
+      diff.unchanged++;
+    } else {
+      diff.changed.push({ body, id: existing.id });
+    }
+  }
+
+  diff.removed = [...remaining.values()];
+  return diff;
+}
+
+export async function fetchRegisteredCommands(
+  rest: REST,
+  clientId: string,
+  scope: DeployScope
+): Promise<APIApplicationCommand[]> {
+  return (await rest.get(commandsRoute(clientId, scope), {
+    query: new URLSearchParams({ with_localizations: "true" }),
+  })) as APIApplicationCommand[];
+}
+
+/**
+ * Compares the commands with what is registered for the scope and only
+ * creates, edits or deletes the ones that differ. Nothing is sent when they
+ * already match.
+ */
+export async function syncCommands(
+  rest: REST,
+  clientId: string,
+  scope: DeployScope,
+  commands: CommandBody[]
+): Promise<CommandDiff> {
+  const diff = diffCommands(commands, await fetchRegisteredCommands(rest, clientId, scope));
+
+  for (const body of diff.added) {
+    await rest.post(commandsRoute(clientId, scope), { body });
+  }
+  for (const { body, id } of diff.changed) {
+    await rest.patch(commandRoute(clientId, scope, id), { body });
+  }
+  for (const command of diff.removed) {
+    await rest.delete(commandRoute(clientId, scope, command.id));
+  }
+
+  return diff;
+}
+
+/** Removes every command registered for the scope. Returns how many there were. */
+export async function clearCommands(rest: REST, clientId: string, scope: DeployScope): Promise<number> {
+  const registered = await fetchRegisteredCommands(rest, clientId, scope);
+  if (registered.length > 0) {
+    await rest.put(commandsRoute(clientId, scope), { body: [] });
+  }
+  return registered.length;
+}
+
+export function formatDiff(diff: CommandDiff): string {
+  const parts = [
+    diff.added.length > 0 ? `added ${diff.added.map((body) => body.name).join(", ")}` : null,
+    diff.changed.length > 0 ? `updated ${diff.changed.map(({ body }) => body.name).join(", ")}` : null,
+    diff.removed.length > 0 ? `removed ${diff.removed.map((command) => command.name).join(", ")}` : null,
+  ].filter(Boolean);
+
+  return parts.length > 0
+    ? `${parts.join("; ")} (${diff.unchanged} unchanged)`
+    : `all ${diff.unchanged} commands are up to date`;
+}
@@ -0,0 +1,134 @@
+import {
+  ChatInputCommandInteraction,
+  PermissionResolvable,
+  PermissionsBitField,
+} from "discord.js";
+import type { Command, CommandMiddleware } from "../events/interactionCreate";
+import { consumeCooldown } from "./cooldowns";
+import { canUseCommand, getCommandKey } from "./permissions";
+import { formatDuration } from "../utils/duration";
+import { getHierarchyError } from "../utils/moderation";
+import { isBotOwner } from "../utils/owners";
+import { CommandError } from "../utils/responses";
+
+/** "ManageNicknames" -> "Manage Nicknames" */
+function formatPermissions(permissions: string[]): string {
+  return permissions
+    .map((permission) => `'${permission.replace(/([a-z])([A-Z])/g, "$1 $2")}'`)
+    .join(", ");
+}
+
+function missingPermissions(
+  granted: Readonly<PermissionsBitField> | undefined,
+  required: PermissionResolvable
+): string[] {
+  return granted ? granted.missing(required) : new PermissionsBitField(required).toArray();
+}
+
+function requireGuild(
+  interaction: ChatInputCommandInteraction
+): asserts interaction is ChatInputCommandInteraction<"cached"> {
+  if (!interaction.inCachedGuild()) {
+    throw new CommandError("This command can only be used in a server.");
+  }
+}
+
+export const guildOnly: CommandMiddleware = async (interaction, command) => {
+  if (command.guildOnly) requireGuild(interaction);
+};
+
+export const commandPermissions: CommandMiddleware = async (interaction, command) => {
+  if (interaction.inCachedGuild() && !canUseCommand(interaction.member, command, getCommandKey(interaction))) {
+    throw new CommandError("You don't have permission to use this command.");
+  }
+};
+
+export const requiredPermissions: CommandMiddleware = async (interaction, command) => {
+  if (!command.requiredPermissions) return;
+  requireGuild(interaction);
+
+  const missing = missingPermissions(interaction.member.permissions, command.requiredPermissions);
+  if (missing.length > 0) {
+    throw new CommandError(`You need the ${formatPermissions(missing)} permission to use this command.`);
+  }
+};
+
+export const botPermissions: CommandMiddleware = async (interaction, command) => {
+  if (!command.botPermissions) return;
+  requireGuild(interaction);
+
+  const missing = missingPermissions(interaction.guild.members.me?.permissions, command.botPermissions);
+  if (missing.length > 0) {
+    throw new CommandError(
+      `I don't have permission to do that. Please ask an administrator to grant me the ${formatPermissions(missing)} permission.`
+    );
+  }
+};
+
+/**
+ * Fetches the member named by the command's `hierarchyTarget` option into
+ * `context.target` and checks both the moderator and the bot outrank them.
+ */
+export const hierarchyTarget: CommandMiddleware = async (interaction, command, context) => {
+  if (!command.hierarchyTarget) return;
+  requireGuild(interaction);
+
+  const { option, verb, requireMember = true } = command.hierarchyTarget;
+  const user = interaction.options.getUser(option, true);
+  const target = await interaction.guild.members.fetch(user.id).catch(() => null);
+
+  if (!target) {
+    if (requireMember) throw new CommandError("Could not find that user in this server.");
+    return;
+  }
+
+  const hierarchyError = getHierarchyError(interaction.member, target, interaction.guild, verb);
+  if (hierarchyError) throw new CommandError(hierarchyError);
+
+  context.target = target;
+};
+
+export const cooldown: CommandMiddleware = async (interaction, command) => {
+  if (!command.cooldown) return;
+
+  const remaining = consumeCooldown(interaction, command.cooldown);
+  if (remaining > 0) {
+    throw new CommandError(
+      `\`/${interaction.commandName}\` is on cooldown. Try again in ${formatDuration(
+        Math.ceil(remaining / 1000) * 1000
+      )}.`
+    );
+  }
+};
+
+export const autoDefer: CommandMiddleware = async (interaction, command) => {
+  if (!command.autoDefer || interaction.deferred || interaction.replied) return;
+
+  const ephemeral = typeof command.autoDefer === "object" && command.autoDefer.ephemeral;
+  await interaction.deferReply({ ephemeral });
+};
+
+/** For a command's `before` list: only the bot owner may continue. */
+export const requireBotOwner: CommandMiddleware = async (interaction) => {
+  if (!(await isBotOwner(interaction.client, interaction.user.id))) {
+    throw new CommandError("Only the bot owner can use this command.");
+  }
+};
+
+/**
+ * The checks every command goes through, in order. Cooldowns come last so a
+ * rejected invocation doesn't use one up. A command's own `before`
+ * middleware runs after these, then `autoDefer`.
+ */
+export const preconditions: CommandMiddleware[] = [
+  guildOnly,
+  commandPermissions,
+  requiredPermissions,
+  botPermissions,
+  hierarchyTarget,
+  cooldown,
+];
+
+export function getBeforeChain(command: Command): CommandMiddleware[] {
+  return [...preconditions, ...(command.before ?? []), autoDefer];
+}
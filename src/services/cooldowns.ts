@@ -0,0 +1,68 @@
+import { ChatInputCommandInteraction } from "discord.js";
+import database from "../database/database";
+
+export type CooldownScope = "user" | "guild" | "global";
+
+/** Declared on a command module as `cooldown`. */
+export interface CommandCooldown {
+  seconds: number;
+  /** Who shares the cooldown. Defaults to "user"; "guild" falls back to "user" in DMs. */
+  scope?: CooldownScope;
+  /** Role IDs whose members skip this cooldown, on top of the guild's bypass roles from /config. */
+  bypassRoles?: string[];
+}
+
+// Expired entries are swept once the map grows past this
+const SWEEP_THRESHOLD = 1000;
+
+const expiries = new Map<string, number>();
+
+function getCooldownKey(
+  interaction: ChatInputCommandInteraction,
+  cooldown: CommandCooldown
+): string {
+  const scope = cooldown.scope ?? "user";
+
+  if (scope === "global") return `${interaction.commandName}:global`;
+  if (scope === "guild" && interaction.guildId) {
+    return `${interaction.commandName}:guild:${interaction.guildId}`;
+  }
+  return `${interaction.commandName}:user:${interaction.user.id}`;
+}
+
+function canBypass(interaction: ChatInputCommandInteraction, cooldown: CommandCooldown): boolean {
+  if (!interaction.inCachedGuild()) return false;
+
+  // Only IDs are matched: anyone allowed to create a role can pick its name
+  const { cooldownBypassRoleIds } = database.getGuildSettings(interaction.guildId);
+  const bypass = [...cooldownBypassRoleIds, ...(cooldown.bypassRoles ?? [])];
+  return bypass.some((roleId) => interaction.member.roles.cache.has(roleId));
+}
+
+function sweepExpired(now: number): void {
+  for (const [key, expiresAt] of expiries) {
+    if (expiresAt <= now) expiries.delete(key);
+  }
+}
+
+/**
+ * Starts the command's cooldown unless it is already running. Returns the
+ * milliseconds left when it is, or 0 when the command may run.
+ */
+export function consumeCooldown(
+  interaction: ChatInputCommandInteraction,
+  cooldown: CommandCooldown
+): number {
+  if (cooldown.seconds <= 0 || canBypass(interaction, cooldown)) return 0;
+
+  const now = Date.now();
+  const key = getCooldownKey(interaction, cooldown);
+  const expiresAt = expiries.get(key);
+  if (expiresAt !== undefined && expiresAt > now) {
+    return expiresAt - now;
+  }
+
+  if (expiries.size >= SWEEP_THRESHOLD) sweepExpired(now);
+  expiries.set(key, now + cooldown.seconds * 1000);
+  return 0;
+}
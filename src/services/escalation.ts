@@ -0,0 +1,130 @@
+import { GuildMember } from "discord.js";
+import database, { EscalationRule, Infraction, InfractionType } from "../database/database";
+import { formatCase } from "../utils/cases";
+import { formatDuration } from "../utils/duration";
+import { getDecayCutoff } from "../utils/points";
+import {
+  getMutedRole,
+  logPunishment,
+  PunishmentDetails,
+  sendPunishmentMessageToUser,
+} from "../utils/moderation";
+
+export const ESCALATION_ACTIONS = [
+  InfractionType.TIMEOUT,
+  InfractionType.MUTE,
+  InfractionType.KICK,
+  InfractionType.BAN,
+];
+
+export const DEFAULT_TIMEOUT_MS = 60 * 60 * 1000;
+// Discord caps member timeouts at 28 days
+export const MAX_TIMEOUT_MS = 28 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The duration a rule's action is actually applied for: timeouts default to
+ * an hour and can't exceed 28 days, even if an older rule stored more.
+ */
+export function getEffectiveDuration(action: InfractionType, durationMs?: number): number | undefined {
+  if (action !== InfractionType.TIMEOUT) return durationMs;
+  return Math.min(durationMs ?? DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+}
+
+export interface EscalationResult {
+  rule: EscalationRule;
+  infraction: Infraction;
+  duration?: string;
+}
+
+/**
+ * Checks the guild's escalation rules after a warning has been recorded and
+ * applies the first matching action. A rule matches when the warning brings
+ * the member's active warnings inside the rule's window to exactly its
+ * threshold, so later warnings don't re-apply the same rule.
+ */
+export async function evaluateEscalation(
+  targetMember: GuildMember,
+  warning: Infraction
+): Promise<EscalationResult | null> {
+  const guild = targetMember.guild;
+  const rules = database.getEscalationRules(guild.id).sort((a, b) => b.threshold - a.threshold);
+
+  const rule = rules.find((rule) => {
+    // Decayed warnings stay on record but never count toward a threshold
+    const windowStart = Date.now() - rule.windowDays * DAY_MS;
+    const since = new Date(Math.max(windowStart, getDecayCutoff(guild.id).getTime()));
+    const count = database.getInfractionCount(targetMember.id, guild.id, InfractionType.WARN, since);
+    return count === rule.threshold;
+  });
+
+  if (!rule) return null;
+
+  try {
+    return await applyEscalation(targetMember, warning, rule);
+  } catch (error) {
+    console.error(`Failed to apply escalation rule ${rule.id} in ${guild.id}:`, error);
+    return null;
+  }
+}
+
+async function applyEscalation(
+  targetMember: GuildMember,
+  warning: Infraction,
+  rule: EscalationRule
+): Promise<EscalationResult> {
+  const guild = targetMember.guild;
+  const reason = `Automatic escalation: ${rule.threshold} warnings within ${rule.windowDays} days`;
+  const auditReason = `${reason} (${formatCase(warning)})`;
+
+  const durationMs = getEffectiveDuration(rule.action, rule.durationMs);
+
+  const infraction = database.addInfraction(
+    targetMember.id,
+    guild.id,
+    guild.client.user.id,
+    rule.action,
+    reason,
+    {
+      parentId: warning.id,
+      expiresAt: durationMs ? new Date(Date.now() + durationMs) : undefined,
+    }
+  );
+  const details: PunishmentDetails = {
+    type: rule.action,
+    reason,
+    moderator: "Automatic escalation",
+    infraction,
+    duration: durationMs ? formatDuration(durationMs) : undefined,
+  };
+
+  // Members can only be DMed while they still share the server with the bot
+  const dmStatus = await sendPunishmentMessageToUser(targetMember.user, guild, details);
+
+  try {
+    switch (rule.action) {
+      case InfractionType.TIMEOUT:
+        await targetMember.timeout(durationMs!, auditReason);
+        break;
+      case InfractionType.MUTE: {
+        const mutedRole = getMutedRole(guild);
+        if (!mutedRole) throw new Error(`No muted role configured in guild ${guild.id}`);
+        await targetMember.roles.add(mutedRole, auditReason);
+        break;
+      }
+      case InfractionType.KICK:
+        await targetMember.kick(auditReason);
+        break;
+      case InfractionType.BAN:
+        await guild.members.ban(targetMember.id, { reason: auditReason });
+        break;
+    }
+  } catch (error) {
+    database.revokeInfraction(guild.id, infraction.id, guild.client.user.id, "Escalation could not be applied");
+    throw error;
+  }
+
+  await logPunishment(guild, targetMember.user, { ...details, dmStatus });
+
+  return { rule, infraction, duration: details.duration };
+}
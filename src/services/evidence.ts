@@ -0,0 +1,140 @@
+import { Attachment, ChatInputCommandInteraction, Guild } from "discord.js";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { join, relative } from "path";
+import database, {
+  EvidenceInput,
+  Infraction,
+  InfractionEvidence,
+  ModLogEvent,
+} from "../database/database";
+import { formatTargetList } from "./bulkActions";
+import { sendModLog } from "./modLog";
+import { formatCase } from "../utils/cases";
+
+export const MAX_EVIDENCE_PER_INFRACTION = 10;
+const MAX_ARCHIVE_BYTES = 25 * 1024 * 1024;
+const ARCHIVE_DIR = join(process.cwd(), "data", "evidence");
+
+export interface CollectedEvidence {
+  evidence: EvidenceInput[];
+  error?: string;
+}
+
+export function isValidEvidenceUrl(input: string): boolean {
+  try {
+    const url = new URL(input);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads the URL and attachment options of a command into evidence records,
+ * rejecting URLs that aren't plain http(s) links.
+ */
+export function collectEvidence(
+  interaction: ChatInputCommandInteraction,
+  urlOption: string,
+  attachmentOptions: string[]
+): CollectedEvidence {
+  const evidence: EvidenceInput[] = [];
+
+  const url = interaction.options.getString(urlOption)?.trim();
+  if (url) {
+    if (!isValidEvidenceUrl(url)) {
+      return { evidence, error: "Evidence must be a valid `http://` or `https://` link." };
+    }
+    evidence.push({ url });
+  }
+
+  for (const name of attachmentOptions) {
+    const attachment = interaction.options.getAttachment(name);
+    if (attachment) {
+      evidence.push(fromAttachment(attachment));
+    }
+  }
+
+  return { evidence };
+}
+
+function fromAttachment(attachment: Attachment): EvidenceInput {
+  return {
+    url: attachment.url,
+    filename: attachment.name,
+    contentType: attachment.contentType ?? undefined,
+  };
+}
+
+/**
+ * Copies the infraction's attachments into data/evidence when the guild has
+ * archiving enabled, so they outlive Discord's expiring CDN links, and logs
+ * where they were stored. Failures are logged and leave the original link in
+ * place.
+ */
+export async function archiveEvidence(guild: Guild, infraction: Infraction): Promise<void> {
+  if (!database.getGuildSettings(guild.id).archiveEvidence) return;
+
+  const pending = database
+    .getInfractionEvidence(infraction.id)
+    .filter((item) => item.filename && !item.localPath);
+  const archived: string[] = [];
+
+  for (const item of pending) {
+    try {
+      const response = await fetch(item.url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const body = Buffer.from(await response.arrayBuffer());
+      if (body.length > MAX_ARCHIVE_BYTES) {
+        throw new Error(`File is larger than ${MAX_ARCHIVE_BYTES} bytes`);
+      }
+
+      const directory = join(ARCHIVE_DIR, guild.id, infraction.id);
+      if (!existsSync(directory)) {
+        mkdirSync(directory, { recursive: true });
+      }
+
+      const localPath = join(directory, `${item.id}-${sanitizeFilename(item.filename!)}`);
+      writeFileSync(localPath, body);
+      database.setEvidenceLocalPath(item.id, localPath);
+      archived.push(`${item.filename}: \`${formatArchivePath(localPath)}\``);
+    } catch (error) {
+      console.error(`Failed to archive evidence ${item.id} for ${infraction.id}:`, error);
+    }
+  }
+
+  if (archived.length === 0) return;
+
+  await sendModLog(guild, {
+    event: ModLogEvent.INFRACTION,
+    title: "Evidence Archived",
+    color: 0x0099ff,
+    user: { id: infraction.userId },
+    fields: [{ name: "Stored at", value: formatTargetList(archived), inline: false }],
+    footer: formatCase(infraction),
+    summary: `🗄️ Archived ${archived.length} evidence file(s) for ${formatCase(infraction)}`,
+  });
+}
+
+/** Where an archived copy lives, relative to the bot's working directory. */
+export function formatArchivePath(localPath: string): string {
+  return relative(process.cwd(), localPath);
+}
+
+export function formatEvidenceLinks(evidence: InfractionEvidence[] | EvidenceInput[]): string {
+  return evidence
+    .map((item, index) => {
+      const link = `[${item.filename ?? `Evidence ${index + 1}`}](${item.url})`;
+      return "localPath" in item && item.localPath
+        ? `${link} (archived: \`${formatArchivePath(item.localPath)}\`)`
+        : link;
+    })
+    .join("\n");
+}
+
+function sanitizeFilename(filename: string): string {
+  return filename.replace(/[^\w.-]/g, "_").slice(0, 100);
+}
@@ -0,0 +1,93 @@
+import { Client, DiscordAPIError, Guild } from "discord.js";
+import database, { Infraction, ModLogEvent } from "../database/database";
+import { liftPunishment } from "../utils/moderation";
+import { sendModLog } from "./modLog";
+import { formatCase } from "../utils/cases";
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+const MAX_LIFT_ATTEMPTS = 5;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+const failedAttempts = new Map<string, number>();
+
+/**
+ * Periodically lifts temporary punishments whose `expires_at` has passed.
+ * Pending expirations live in the database, so anything that came due while
+ * the bot was offline is picked up by the first check after startup.
+ */
+export function startExpiryScheduler(client: Client<true>): void {
+  if (timer) return;
+
+  void processDueExpirations(client);
+  timer = setInterval(() => void processDueExpirations(client), CHECK_INTERVAL_MS);
+  console.log("Expiry scheduler started.");
+}
+
+async function processDueExpirations(client: Client<true>): Promise<void> {
+  // Skip a tick rather than overlap when Discord is slow to respond
+  if (running) return;
+  running = true;
+
+  try {
+    for (const infraction of database.getDueExpirations()) {
+      await expireInfraction(client, infraction);
+    }
+  } catch (error) {
+    console.error("Error processing expirations:", error);
+  } finally {
+    running = false;
+  }
+}
+
+async function expireInfraction(client: Client<true>, infraction: Infraction): Promise<void> {
+  const guild = client.guilds.cache.get(infraction.guildId);
+
+  let liftError: string | undefined;
+
+  try {
+    if (guild) {
+      await liftPunishment(guild, infraction, `${formatCase(infraction)} expired`);
+    }
+  } catch (error) {
+    console.error(`Failed to lift ${infraction.type} ${formatCase(infraction)} in ${infraction.guildId}:`, error);
+
+    // Missing permissions or an unknown user won't fix themselves; anything
+    // else gets a few more checks before the case is closed anyway.
+    const attempts = (failedAttempts.get(infraction.id) ?? 0) + 1;
+    if (!isPermanentFailure(error) && attempts < MAX_LIFT_ATTEMPTS) {
+      failedAttempts.set(infraction.id, attempts);
+      return;
+    }
+    liftError = `Could not be lifted after ${attempts} attempt${attempts === 1 ? "" : "s"}: ${(error as Error).message}`;
+  }
+  failedAttempts.delete(infraction.id);
+
+  if (!database.markInfractionExpired(infraction.id, client.user.id, liftError ?? "Punishment duration elapsed")) {
+    return;
+  }
+
+  if (guild) {
+    await logExpiry(guild, infraction, liftError);
+  }
+}
+
+function isPermanentFailure(error: unknown): boolean {
+  return error instanceof DiscordAPIError && (error.status === 403 || error.status === 404);
+}
+
+async function logExpiry(guild: Guild, infraction: Infraction, liftError?: string): Promise<void> {
+  await sendModLog(guild, {
+    event: ModLogEvent.EXPIRY,
+    title: `${infraction.type} Expired`,
+    color: 0x00ff00,
+    description: `Original reason: ${infraction.reason}`,
+    user: { id: infraction.userId },
+    fields: [
+      { name: "Issued by", value: `<@${infraction.moderatorId}>`, inline: true },
+      ...(liftError ? [{ name: "⚠️ Not lifted", value: liftError, inline: false }] : []),
+    ],
+    footer: formatCase(infraction),
+    summary: `⌛ ${infraction.type} expired for ${infraction.userId} (${formatCase(infraction)})`,
+  });
+}
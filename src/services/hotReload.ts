@@ -0,0 +1,138 @@
+import { Client } from "discord.js";
+import { FSWatcher, readdirSync, watch } from "fs";
+import { join, relative } from "path";
+import {
+  clearModuleCache,
+  COMMANDS_PATH,
+  deployCommands,
+  EVENTS_PATH,
+  INTERACTIONS_PATH,
+  loadCommands,
+  loadEvents,
+  loadInteractions,
+} from "../loaders";
+
+// Editors often write a file several times in a row, so wait for them to settle
+const DEBOUNCE_MS = 300;
+
+type Area = "commands" | "events" | "interactions";
+
+const areas: Record<Area, string> = {
+  commands: COMMANDS_PATH,
+  events: EVENTS_PATH,
+  interactions: INTERACTIONS_PATH,
+};
+
+const watchers: FSWatcher[] = [];
+const changedFiles = new Map<Area, Set<string>>();
+let debounceTimer: NodeJS.Timeout | null = null;
+let reloading = false;
+
+export function isHotReloadEnabled(): boolean {
+  return process.env.HOT_RELOAD?.trim().toLowerCase() === "true";
+}
+
+/** The directory and every folder below it. */
+function listDirectories(directory: string): string[] {
+  const children = readdirSync(directory, { withFileTypes: true })
+    .filter((dirent) => dirent.isDirectory())
+    .flatMap((dirent) => listDirectories(join(directory, dirent.name)));
+  return [directory, ...children];
+}
+
+/**
+ * Development only (`HOT_RELOAD=true`): watches the command, event and
+ * interaction folders and reloads whichever changed, without reconnecting to
+ * the gateway. Changes to shared modules elsewhere (services, utils,
+ * database) still need a restart, as do newly created folders.
+ */
+export function startHotReload(client: Client): void {
+  if (watchers.length > 0) return;
+
+  for (const [area, root] of Object.entries(areas) as [Area, string][]) {
+    // Recursive watching isn't available on Linux before Node 20, so each
+    // folder gets its own watcher
+    for (const directory of listDirectories(root)) {
+      try {
+        const watcher = watch(directory, (_event, filename) => {
+          if (!filename || !/\.(ts|js)$/.test(filename.toString())) return;
+
+          if (!changedFiles.has(area)) changedFiles.set(area, new Set());
+          changedFiles.get(area)!.add(join(directory, filename.toString()));
+          scheduleReload(client);
+        });
+        watchers.push(watcher);
+      } catch (error) {
+        console.error(`Hot reload could not watch ${directory}:`, error);
+      }
+    }
+  }
+
+  console.log("Hot reload enabled for commands, events and interactions.");
+}
+
+export function stopHotReload(): void {
+  for (const watcher of watchers.splice(0)) {
+    watcher.close();
+  }
+  if (debounceTimer) clearTimeout(debounceTimer);
+  debounceTimer = null;
+}
+
+function scheduleReload(client: Client): void {
+  if (debounceTimer) clearTimeout(debounceTimer);
+  debounceTimer = setTimeout(() => {
+    debounceTimer = null;
+    reload(client).catch((error) => console.error("Hot reload failed:", error));
+  }, DEBOUNCE_MS);
+}
+
+async function reload(client: Client): Promise<void> {
+  // A change made mid-reload is picked up by the next pass
+  if (reloading) {
+    scheduleReload(client);
+    return;
+  }
+  reloading = true;
+
+  try {
+    const pending = new Map(changedFiles);
+    changedFiles.clear();
+
+    for (const [area, files] of pending) {
+      const names = [...files].map((file) => relative(join(areas[area], ".."), file));
+      console.log(`Hot reload: ${names.join(", ")} changed, reloading ${area}.`);
+      clearModuleCache(areas[area]);
+
+      switch (area) {
+        case "commands":
+          await reloadCommands(client);
+          break;
+        case "events":
+          await loadEvents(client);
+          break;
+        case "interactions":
+          await loadInteractions(client);
+          break;
+      }
+    }
+  } finally {
+    reloading = false;
+  }
+}
+
+async function reloadCommands(client: Client): Promise<void> {
+  const before = new Set(client.commands.keys());
+  await loadCommands(client);
+  const after = new Set(client.commands.keys());
+
+  const added = [...after].filter((name) => !before.has(name));
+  const removed = [...before].filter((name) => !after.has(name));
+  if (added.length > 0) console.log(`Hot reload: added /${added.join(", /")}`);
+  if (removed.length > 0) console.log(`Hot reload: removed /${removed.join(", /")}`);
+
+  // Only commands whose definitions changed are sent to Discord
+  if (client.isReady()) {
+    await deployCommands(client);
+  }
+}
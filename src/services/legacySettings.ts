@@ -0,0 +1,57 @@
+import { Client, Guild } from "discord.js";
+import database, { GuildSettingsUpdate } from "../database/database";
+
+// Before /config existed, moderators were recognised by role name and logs
+// went to the first channel with one of these names
+const LEGACY_MODERATOR_ROLES = [
+  "Community Moderator",
+  "Trial Community Moderator",
+  "Trial VC Moderator",
+  "VC Moderator",
+  "Community Manager",
+  "Administrator",
+];
+const LEGACY_LOG_CHANNELS = ["logs", "mod-logs", "moderation-logs", "audit-logs", "staff-logs", "mod-log"];
+
+/**
+ * Gives a guild that has never been configured the moderator roles and log
+ * channel it had before /config, matched by name once and stored by ID.
+ * Guilds that already have settings, even reset ones, are left alone, and
+ * so are guilds with no infractions on record: the old bot never moderated
+ * them, so there is nothing to carry over and they start with /config.
+ */
+function seedLegacySettings(guild: Guild): void {
+  if (database.hasGuildSettings(guild.id) || !database.hasGuildInfractions(guild.id)) return;
+
+  const legacyRoles = new Set(LEGACY_MODERATOR_ROLES.map((name) => name.toLowerCase()));
+  const modRoleIds = guild.roles.cache
+    .filter((role) => legacyRoles.has(role.name.trim().toLowerCase()))
+    .map((role) => role.id);
+
+  const logChannel = LEGACY_LOG_CHANNELS.map((name) =>
+    guild.channels.cache.find((channel) => channel.name === name && channel.isTextBased())
+  ).find(Boolean);
+
+  const seeded: GuildSettingsUpdate = { modRoleIds, logChannelId: logChannel?.id };
+  database.updateGuildSettings(guild.id, seeded);
+
+  if (modRoleIds.length > 0 || logChannel) {
+    console.log(
+      `Seeded settings for ${guild.name} (${guild.id}) from role and channel names: ${modRoleIds.length} moderator role(s), log channel ${
+        logChannel ? `#${logChannel.name}` : "not found"
+      }. Review them with /config view.`
+    );
+  } else {
+    console.log(`${guild.name} (${guild.id}) has no moderator roles or log channel yet. Set them with /config set.`);
+  }
+}
+
+export function seedAllLegacySettings(client: Client<true>): void {
+  for (const guild of client.guilds.cache.values()) {
+    try {
+      seedLegacySettings(guild);
+    } catch (error) {
+      console.error(`Failed to seed settings for ${guild.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,296 @@
+import {
+  APIEmbedField,
+  DiscordAPIError,
+  EmbedBuilder,
+  embedLength,
+  Guild,
+  GuildTextBasedChannel,
+  HTTPError,
+  RateLimitError,
+  WebhookClient,
+} from "discord.js";
+import database, { ModLogEvent } from "../database/database";
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_MS = 5 * 1000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+// Oldest entries are dropped to the console past this, so an outage can't grow memory forever
+const MAX_QUEUE_SIZE = 500;
+// Discord rejects embeds over these limits
+const MAX_DESCRIPTION_LENGTH = 4096;
+const MAX_FIELD_NAME_LENGTH = 256;
+const MAX_FIELD_LENGTH = 1024;
+const MAX_EMBED_LENGTH = 6000;
+const TRANSIENT_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "UND_ERR_CONNECT_TIMEOUT"];
+
+export const WEBHOOK_URL_PATTERN =
+  /^https:\/\/(?:(?:canary|ptb)\.)?discord(?:app)?\.com\/api\/webhooks\/\d{17,20}\/[\w-]+$/;
+
+export const modLogEventLabels: Record<ModLogEvent, string> = {
+  [ModLogEvent.PUNISHMENT]: "Punishments (warn, mute, timeout, kick, ban, unban)",
+  [ModLogEvent.INFRACTION]: "Infraction changes and evidence",
+  [ModLogEvent.EXPIRY]: "Automatic expiries",
+  [ModLogEvent.APPEAL]: "Appeal decisions",
+  [ModLogEvent.NICKNAME]: "Nickname changes",
+  [ModLogEvent.DATA]: "Data imports",
+};
+
+/**
+ * One mod-log entry. Every entry renders the same way: title, description,
+ * then User and Moderator side by side, any extra fields and the footer.
+ */
+export interface ModLogEntry {
+  event: ModLogEvent;
+  title: string;
+  color: number;
+  description?: string;
+  user?: { id: string; tag?: string };
+  moderator?: string;
+  fields?: APIEmbedField[];
+  footer?: string;
+  /** Single line written to the console when the entry can't be delivered. */
+  summary: string;
+}
+
+type Destination = { kind: "channel"; channelId: string } | { kind: "webhook"; url: string };
+
+interface QueuedLog {
+  guild: Guild;
+  destination: Destination;
+  embed: EmbedBuilder;
+  summary: string;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+const queue: QueuedLog[] = [];
+const webhooks = new Map<string, WebhookClient>();
+let retryTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+function truncate(text: string, limit: number): string {
+  return text.length <= limit ? text : `${text.slice(0, limit - 1)}…`;
+}
+
+/**
+ * Builds the embed for an entry. Reasons and evidence are user input, so
+ * long text is cut to fit Discord's limits rather than failing the send.
+ */
+export function buildModLogEmbed(entry: ModLogEntry): EmbedBuilder {
+  const embed = new EmbedBuilder().setTitle(entry.title).setColor(entry.color).setTimestamp();
+
+  if (entry.user) {
+    embed.addFields({
+      name: "User",
+      value: `${entry.user.tag ?? `<@${entry.user.id}>`} (${entry.user.id})`,
+      inline: true,
+    });
+  }
+
+  if (entry.moderator) {
+    embed.addFields({ name: "Moderator", value: entry.moderator, inline: true });
+  }
+
+  if (entry.fields && entry.fields.length > 0) {
+    embed.addFields(
+      entry.fields.map((field) => ({
+        ...field,
+        name: truncate(field.name, MAX_FIELD_NAME_LENGTH),
+        value: truncate(field.value, MAX_FIELD_LENGTH),
+      }))
+    );
+  }
+
+  if (entry.footer) {
+    embed.setFooter({ text: entry.footer });
+  }
+
+  // The description gets whatever room the fields leave in the embed
+  const room = Math.min(MAX_DESCRIPTION_LENGTH, MAX_EMBED_LENGTH - embedLength(embed.data));
+  if (entry.description && room > 0) {
+    embed.setDescription(truncate(entry.description, room));
+  }
+
+  return embed;
+}
+
+/**
+ * Returns the channel an event type is logged to: its routed channel, or the
+ * guild's default log channel when the event isn't routed to a channel.
+ */
+export function findLogChannel(guild: Guild, event?: ModLogEvent): GuildTextBasedChannel | null {
+  const route = event ? database.getModLogRoute(guild.id, event) : null;
+  const channelId = route?.channelId ?? database.getGuildSettings(guild.id).logChannelId;
+  if (!channelId) return null;
+
+  const channel = guild.channels.cache.get(channelId);
+  return channel && channel.isTextBased() ? channel : null;
+}
+
+function resolveDestination(guild: Guild, event: ModLogEvent): Destination | null {
+  const route = database.getModLogRoute(guild.id, event);
+  if (route?.webhookUrl) return { kind: "webhook", url: route.webhookUrl };
+
+  const channelId = route?.channelId ?? database.getGuildSettings(guild.id).logChannelId;
+  return channelId ? { kind: "channel", channelId } : null;
+}
+
+function destinationKey(destination: Destination): string {
+  return destination.kind === "channel" ? `channel:${destination.channelId}` : `webhook:${destination.url}`;
+}
+
+/**
+ * Sends an entry to wherever the guild routes its event type. Sends that hit
+ * a rate limit or a Discord outage are queued and retried with backoff;
+ * anything undeliverable is written to the console instead.
+ */
+export async function sendModLog(guild: Guild, entry: ModLogEntry): Promise<void> {
+  const destination = resolveDestination(guild, entry.event);
+  if (!destination) {
+    console.log(entry.summary);
+    return;
+  }
+
+  const item: QueuedLog = {
+    guild,
+    destination,
+    embed: buildModLogEmbed(entry),
+    summary: entry.summary,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+  };
+
+  // Keep entries in order behind any that are already waiting to be retried
+  const key = destinationKey(destination);
+  const waiting = queue.filter((queued) => destinationKey(queued.destination) === key);
+  if (waiting.length > 0) {
+    item.nextAttemptAt = Math.max(...waiting.map((queued) => queued.nextAttemptAt));
+    enqueue(item);
+    return;
+  }
+
+  await attempt(item);
+}
+
+async function deliver(item: QueuedLog): Promise<void> {
+  const { guild, destination, embed } = item;
+
+  if (destination.kind === "webhook") {
+    let webhook = webhooks.get(destination.url);
+    if (!webhook) {
+      webhook = new WebhookClient({ url: destination.url });
+      webhooks.set(destination.url, webhook);
+    }
+
+    await webhook.send({
+      embeds: [embed],
+      username: guild.client.user.username,
+      avatarURL: guild.client.user.displayAvatarURL(),
+    });
+    return;
+  }
+
+  const channel =
+    guild.channels.cache.get(destination.channelId) ??
+    (await guild.channels.fetch(destination.channelId));
+  if (!channel || !channel.isTextBased()) {
+    throw new Error(`Log channel ${destination.channelId} is missing or not a text channel`);
+  }
+
+  await channel.send({ embeds: [embed] });
+}
+
+/** Returns false when the entry was put back on the queue for another try. */
+async function attempt(item: QueuedLog): Promise<boolean> {
+  try {
+    await deliver(item);
+    return true;
+  } catch (error) {
+    item.attempts++;
+
+    if (!isTransientError(error) || item.attempts >= MAX_ATTEMPTS) {
+      console.error("Failed to send to logging channel:", error);
+      console.log(item.summary);
+      return true;
+    }
+
+    item.nextAttemptAt = Date.now() + getRetryDelay(error, item.attempts);
+    enqueue(item);
+    return false;
+  }
+}
+
+function isTransientError(error: unknown): boolean {
+  if (error instanceof RateLimitError) return true;
+  if (error instanceof DiscordAPIError || error instanceof HTTPError) {
+    return error.status === 429 || error.status >= 500;
+  }
+
+  // Network failures carry an errno-style code instead of an HTTP status
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  return (
+    (typeof code === "string" && TRANSIENT_ERROR_CODES.includes(code)) ||
+    (error instanceof Error && error.name === "AbortError")
+  );
+}
+
+function getRetryDelay(error: unknown, attempts: number): number {
+  if (error instanceof RateLimitError) {
+    return Math.min(error.retryAfter + 250, MAX_RETRY_MS);
+  }
+  return Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+}
+
+function enqueue(item: QueuedLog): void {
+  queue.push(item);
+
+  while (queue.length > MAX_QUEUE_SIZE) {
+    const dropped = queue.shift()!;
+    console.warn("Mod log queue is full, dropping the oldest entry");
+    console.log(dropped.summary);
+  }
+
+  scheduleQueue();
+}
+
+function scheduleQueue(): void {
+  if (processing || queue.length === 0) return;
+  if (retryTimer) clearTimeout(retryTimer);
+
+  const nextAttemptAt = Math.min(...queue.map((item) => item.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processQueue().catch((error) => console.error("Mod log queue error:", error));
+  }, Math.max(0, nextAttemptAt - Date.now()));
+}
+
+async function processQueue(): Promise<void> {
+  processing = true;
+
+  try {
+    const now = Date.now();
+    const due = queue.filter((item) => item.nextAttemptAt <= now);
+    for (const item of due) {
+      queue.splice(queue.indexOf(item), 1);
+    }
+
+    // Once a destination fails again, hold its later entries so they stay in order
+    const blocked = new Map<string, number>();
+    for (const item of due) {
+      const key = destinationKey(item.destination);
+      const retryAt = blocked.get(key);
+      if (retryAt !== undefined) {
+        item.nextAttemptAt = retryAt;
+        queue.push(item);
+        continue;
+      }
+
+      if (!(await attempt(item))) {
+        blocked.set(key, item.nextAttemptAt);
+      }
+    }
+  } finally {
+    processing = false;
+    scheduleQueue();
+  }
+}
@@ -0,0 +1,416 @@
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import database, {
+  DmStatus,
+  EvidenceInput,
+  InfractionStatus,
+  InfractionType,
+} from "../database/database";
+import { formatArchivePath, isValidEvidenceUrl } from "./evidence";
+
+export const EXPORT_FORMAT = "projectrd-moderation";
+export const EXPORT_VERSION = 1;
+const EXPORT_DIR = join(process.cwd(), "data", "exports");
+
+export type ExportFormat = "json" | "csv";
+
+export interface ExportedInfraction {
+  id: string;
+  caseNumber: number;
+  userId: string;
+  moderatorId: string;
+  type: InfractionType;
+  reason: string;
+  status: InfractionStatus;
+  points: number;
+  createdAt: string;
+  expiresAt?: string;
+  parentId?: string;
+  dmStatus?: DmStatus;
+  evidence: (EvidenceInput & { addedBy: string; createdAt: string; archivePath?: string })[];
+  history: {
+    action: string;
+    moderatorId: string;
+    reason: string;
+    oldValue?: string;
+    newValue?: string;
+    createdAt: string;
+  }[];
+}
+
+export interface ExportedNote {
+  id: number;
+  userId: string;
+  authorId: string;
+  content: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface GuildExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  guildId: string;
+  exportedAt: string;
+  infractions: ExportedInfraction[];
+  notes: ExportedNote[];
+}
+
+export interface ExportFile {
+  name: string;
+  content: Buffer;
+}
+
+export interface ImportResult {
+  imported: number;
+  notes: number;
+  duplicates: number;
+  skipped: SkippedRecord[];
+}
+
+export interface SkippedRecord {
+  /** Which list of the file the record came from; `index` counts within it. */
+  kind: "infraction" | "note";
+  index: number;
+  reason: string;
+}
+
+export function exportGuildData(guildId: string): GuildExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    guildId,
+    exportedAt: new Date().toISOString(),
+    infractions: database.getGuildInfractions(guildId).map((infraction) => ({
+      id: infraction.id,
+      caseNumber: infraction.caseNumber,
+      userId: infraction.userId,
+      moderatorId: infraction.moderatorId,
+      type: infraction.type,
+      reason: infraction.reason,
+      status: infraction.status,
+      points: infraction.points,
+      createdAt: infraction.createdAt.toISOString(),
+      expiresAt: infraction.expiresAt?.toISOString(),
+      parentId: infraction.parentId,
+      dmStatus: infraction.dmStatus,
+      evidence: database.getInfractionEvidence(infraction.id).map((item) => ({
+        url: item.url,
+        filename: item.filename,
+        contentType: item.contentType,
+        archivePath: item.localPath && formatArchivePath(item.localPath),
+        addedBy: item.addedBy,
+        createdAt: item.createdAt.toISOString(),
+      })),
+      history: database.getInfractionHistory(infraction.id).map((entry) => ({
+        action: entry.action,
+        moderatorId: entry.moderatorId,
+        reason: entry.reason,
+        oldValue: entry.oldValue,
+        newValue: entry.newValue,
+        createdAt: entry.createdAt.toISOString(),
+      })),
+    })),
+    notes: database.getGuildNotes(guildId).map((note) => ({
+      id: note.id,
+      userId: note.userId,
+      authorId: note.authorId,
+      content: note.content,
+      createdAt: note.createdAt.toISOString(),
+      updatedAt: note.updatedAt?.toISOString(),
+    })),
+  };
+}
+
+const CSV_COLUMNS = [
+  "case_number",
+  "id",
+  "user_id",
+  "moderator_id",
+  "type",
+  "status",
+  "points",
+  "reason",
+  "created_at",
+  "expires_at",
+  "parent_id",
+  "evidence",
+  "archived_evidence",
+];
+
+function toCsvField(value: string | number | undefined): string {
+  let text = value === undefined ? "" : String(value);
+  // Stop spreadsheet apps from evaluating reasons such as "=HYPERLINK(...)"
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per infraction, with evidence URLs and the paths of archived copies
+ * joined by spaces in the last two columns, followed by one row per note with
+ * the type "NOTE".
+ */
+export function toCsv(data: GuildExport): string {
+  const infractionRows = data.infractions.map((infraction) =>
+    [
+      infraction.caseNumber,
+      infraction.id,
+      infraction.userId,
+      infraction.moderatorId,
+      infraction.type,
+      infraction.status,
+      infraction.points,
+      infraction.reason,
+      infraction.createdAt,
+      infraction.expiresAt,
+      infraction.parentId,
+      infraction.evidence.map((item) => item.url).join(" "),
+      infraction.evidence.flatMap((item) => (item.archivePath ? [item.archivePath] : [])).join(" "),
+    ]
+      .map(toCsvField)
+      .join(",")
+  );
+  const noteRows = data.notes.map((note) =>
+    [
+      undefined,
+      `note-${note.id}`,
+      note.userId,
+      note.authorId,
+      "NOTE",
+      undefined,
+      undefined,
+      note.content,
+      note.createdAt,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    ]
+      .map(toCsvField)
+      .join(",")
+  );
+
+  return [CSV_COLUMNS.join(","), ...infractionRows, ...noteRows].join("\r\n");
+}
+
+export function buildExportFile(guildId: string, format: ExportFormat): ExportFile {
+  const data = exportGuildData(guildId);
+  const stamp = data.exportedAt.replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  const content = format === "json" ? JSON.stringify(data, null, 2) : toCsv(data);
+
+  return {
+    name: `moderation-${guildId}-${stamp}.${format}`,
+    content: Buffer.from(content, "utf8"),
+  };
+}
+
+export function writeExportToDisk(guildId: string, file: ExportFile): string {
+  const directory = join(EXPORT_DIR, guildId);
+  if (!existsSync(directory)) {
+    mkdirSync(directory, { recursive: true });
+  }
+
+  const path = join(directory, file.name);
+  writeFileSync(path, file.content);
+  return path;
+}
+
+// Action names used by other moderation bots, lower-cased with separators removed
+const TYPE_ALIASES: Record<string, InfractionType> = {
+  warn: InfractionType.WARN,
+  warning: InfractionType.WARN,
+  strike: InfractionType.WARN,
+  mute: InfractionType.MUTE,
+  tempmute: InfractionType.MUTE,
+  voicemute: InfractionType.MUTE,
+  kick: InfractionType.KICK,
+  ban: InfractionType.BAN,
+  tempban: InfractionType.BAN,
+  softban: InfractionType.BAN,
+  hackban: InfractionType.BAN,
+  forceban: InfractionType.BAN,
+  timeout: InfractionType.TIMEOUT,
+  communicationdisabled: InfractionType.TIMEOUT,
+};
+
+export function mapInfractionType(value: unknown): InfractionType | null {
+  if (typeof value !== "string") return null;
+  return TYPE_ALIASES[value.toLowerCase().replace(/[^a-z]/g, "")] ?? null;
+}
+
+type ImportRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is ImportRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function pick(record: ImportRecord, keys: string[]): unknown {
+  for (const key of keys) {
+    if (record[key] !== undefined && record[key] !== null) return record[key];
+  }
+  return undefined;
+}
+
+function readSnowflake(value: unknown): string | null {
+  const id = isRecord(value) ? value.id : value;
+  return typeof id === "string" && /^\d{17,20}$/.test(id) ? id : null;
+}
+
+// JSON numbers can't hold a snowflake exactly, so a numeric ID has already been rounded
+function isNumericId(value: unknown): boolean {
+  return typeof (isRecord(value) ? value.id : value) === "number";
+}
+
+function readDate(value: unknown): Date | null {
+  if (typeof value !== "number" && typeof value !== "string") return null;
+  // Unix timestamps may be in seconds or milliseconds
+  const date =
+    typeof value === "number" ? new Date(value < 1e12 ? value * 1000 : value) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function readEvidence(value: unknown): EvidenceInput[] {
+  const items: unknown[] = Array.isArray(value) ? value : value === undefined ? [] : [value];
+
+  return items
+    .map((item): Partial<EvidenceInput> => {
+      if (typeof item === "string") return { url: item };
+      if (!isRecord(item)) return {};
+      return {
+        url: readString(item.url),
+        filename: readString(item.filename) ?? readString(item.name),
+        contentType: readString(item.contentType),
+      };
+    })
+    .filter((item): item is EvidenceInput => typeof item.url === "string" && isValidEvidenceUrl(item.url));
+}
+
+function isInfractionStatus(value: unknown): value is InfractionStatus {
+  return Object.values(InfractionStatus).includes(value as InfractionStatus);
+}
+
+function findRecords(payload: unknown): unknown[] | null {
+  if (Array.isArray(payload)) return payload;
+  if (!isRecord(payload)) return null;
+
+  const list = pick(payload, ["infractions", "cases", "warnings", "punishments", "logs", "data"]);
+  return Array.isArray(list) ? list : null;
+}
+
+/**
+ * Imports infractions from this bot's JSON export or another bot's. Field
+ * names are matched loosely, action names are mapped onto InfractionType and
+ * records already on file (same user, type, reason and time) are skipped.
+ * Expiry dates are not carried over, so nothing imported is ever lifted
+ * automatically. Notes are read from this bot's own exports only. Everything
+ * is written in one transaction.
+ */
+export function importGuildData(guildId: string, payload: unknown, importedBy: string): ImportResult {
+  const records = findRecords(payload);
+  if (!records) {
+    throw new Error("The file doesn't contain a list of infractions.");
+  }
+
+  const notes: unknown[] = isRecord(payload) && Array.isArray(payload.notes) ? payload.notes : [];
+  const result: ImportResult = { imported: 0, notes: 0, duplicates: 0, skipped: [] };
+  const seen = new Set<string>();
+
+  database.transaction(() => {
+    records.forEach((record, index) => {
+      if (!isRecord(record)) {
+        result.skipped.push({ kind: "infraction", index, reason: "not an object" });
+        return;
+      }
+
+      const rawUserId = pick(record, ["userId", "user_id", "user", "targetId", "target_id", "target", "memberId", "offender"]);
+      if (isNumericId(rawUserId)) {
+        result.skipped.push({ kind: "infraction", index, reason: "user ID is a number, not a string" });
+        return;
+      }
+
+      const userId = readSnowflake(rawUserId);
+      if (!userId) {
+        result.skipped.push({ kind: "infraction", index, reason: "missing user ID" });
+        return;
+      }
+
+      const rawType = pick(record, ["type", "action", "punishment", "kind"]);
+      const type = mapInfractionType(rawType);
+      if (!type) {
+        result.skipped.push({ kind: "infraction", index, reason: `unknown type "${String(rawType)}"` });
+        return;
+      }
+
+      const rawModeratorId = pick(record, [
+        "moderatorId",
+        "moderator_id",
+        "moderator",
+        "modId",
+        "mod_id",
+        "mod",
+        "executor",
+        "issuer",
+        "author",
+      ]);
+      if (isNumericId(rawModeratorId)) {
+        result.skipped.push({ kind: "infraction", index, reason: "moderator ID is a number, not a string" });
+        return;
+      }
+
+      const moderatorId = readSnowflake(rawModeratorId) ?? importedBy;
+      const reason = String(pick(record, ["reason", "description", "note"]) ?? "No reason provided").slice(0, 1024);
+      const createdAt =
+        readDate(pick(record, ["createdAt", "created_at", "timestamp", "date", "time", "issuedAt"])) ?? new Date();
+
+      const key = `${userId}|${type}|${reason}|${Math.floor(createdAt.getTime() / 1000)}`;
+      if (seen.has(key) || database.hasMatchingInfraction(guildId, userId, type, reason, createdAt)) {
+        result.duplicates++;
+        return;
+      }
+      seen.add(key);
+
+      const status = isInfractionStatus(record.status) ? record.status : undefined;
+      const points = typeof record.points === "number" ? Math.max(0, Math.round(record.points)) : undefined;
+
+      database.addInfraction(userId, guildId, moderatorId, type, reason, {
+        evidence: readEvidence(pick(record, ["evidence", "proof", "attachments"])),
+        points,
+        status,
+        createdAt,
+      });
+      result.imported++;
+    });
+
+    notes.forEach((note, index) => {
+      const userId = isRecord(note) ? readSnowflake(note.userId) : null;
+      const createdAt = isRecord(note) ? readDate(note.createdAt) : null;
+      if (!isRecord(note) || !userId || typeof note.content !== "string" || !createdAt) {
+        result.skipped.push({ kind: "note", index, reason: "invalid note" });
+        return;
+      }
+
+      if (database.hasMatchingNote(guildId, userId, note.content, createdAt)) {
+        result.duplicates++;
+        return;
+      }
+
+      database.importNote({
+        guildId,
+        userId,
+        authorId: readSnowflake(note.authorId) ?? importedBy,
+        content: note.content,
+        createdAt,
+        updatedAt: readDate(note.updatedAt) ?? undefined,
+      });
+      result.notes++;
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,102 @@
+import {
+  ApplicationCommandOptionType,
+  ChatInputCommandInteraction,
+  GuildMember,
+  PermissionFlagsBits,
+} from "discord.js";
+import database, { CommandPermission, PermissionTargetType } from "../database/database";
+import type { Command } from "../events/interactionCreate";
+import { hasModeratorRole } from "../utils/moderation";
+
+export type PermissionFlagName = keyof typeof PermissionFlagsBits;
+
+/**
+ * Builds the permission key for an invocation, e.g. "warn" or
+ * "infraction revoke". Subcommand groups sit between the two.
+ */
+export function getCommandKey(interaction: ChatInputCommandInteraction): string {
+  return [
+    interaction.commandName,
+    interaction.options.getSubcommandGroup(false),
+    interaction.options.getSubcommand(false),
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/** Lists every permission key a command accepts: the command and each subcommand. */
+export function getCommandKeys(command: Command): string[] {
+  const json = command.data.toJSON();
+  const keys = [json.name];
+
+  for (const option of json.options ?? []) {
+    if (option.type === ApplicationCommandOptionType.Subcommand) {
+      keys.push(`${json.name} ${option.name}`);
+    } else if (option.type === ApplicationCommandOptionType.SubcommandGroup) {
+      keys.push(`${json.name} ${option.name}`);
+      for (const subcommand of option.options ?? []) {
+        keys.push(`${json.name} ${option.name} ${subcommand.name}`);
+      }
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Decides whether a member may run a command. The guild owner and
+ * administrators always can. Otherwise the most specific key with stored
+ * rules wins ("infraction revoke" before "infraction"), and the member must
+ * match one of its rules. Without stored rules the command's own default
+ * applies.
+ */
+export function canUseCommand(member: GuildMember, command: Command, key: string): boolean {
+  if (member.id === member.guild.ownerId) return true;
+  if (member.permissions.has(PermissionFlagsBits.Administrator)) return true;
+
+  const rules = resolveRules(member.guild.id, key);
+  if (rules.length > 0) {
+    return rules.some((rule) => matchesRule(member, rule));
+  }
+
+  return hasDefaultAccess(member, command);
+}
+
+function resolveRules(guildId: string, key: string): CommandPermission[] {
+  const parts = key.split(" ");
+
+  for (let length = parts.length; length > 0; length--) {
+    const rules = database.getCommandPermissions(guildId, parts.slice(0, length).join(" "));
+    if (rules.length > 0) return rules;
+  }
+
+  return [];
+}
+
+function matchesRule(member: GuildMember, rule: CommandPermission): boolean {
+  switch (rule.targetType) {
+    case PermissionTargetType.ROLE:
+      return member.roles.cache.has(rule.targetId);
+    case PermissionTargetType.USER:
+      return member.id === rule.targetId;
+    case PermissionTargetType.PERMISSION: {
+      const flag = PermissionFlagsBits[rule.targetId as PermissionFlagName];
+      return flag !== undefined && member.permissions.has(flag);
+    }
+    default:
+      return false;
+  }
+}
+
+function hasDefaultAccess(member: GuildMember, command: Command): boolean {
+  if (command.moderatorOnly) {
+    return hasModeratorRole(member);
+  }
+
+  const defaultPermissions = command.data.default_member_permissions;
+  if (defaultPermissions) {
+    return member.permissions.has(BigInt(defaultPermissions));
+  }
+
+  return true;
+}
@@ -0,0 +1,6 @@
+import { Infraction } from "../database/database";
+
+/** The user-facing name of an infraction, e.g. "Case #142". */
+export function formatCase(infraction: Pick<Infraction, "caseNumber">): string {
+  return `Case #${infraction.caseNumber}`;
+}
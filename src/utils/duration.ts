@@ -0,0 +1,43 @@
+const units: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses durations such as "30m", "1h30m" or "7d" into milliseconds.
+ * Returns null when the input is not a valid, positive duration.
+ */
+export function parseDuration(input: string): number | null {
+  const normalized = input.trim().toLowerCase().replace(/\s+/g, "");
+  if (!/^(\d+[smhdw])+$/.test(normalized)) return null;
+
+  let total = 0;
+  for (const [, amount, unit] of normalized.matchAll(/(\d+)([smhdw])/g)) {
+    total += Number(amount) * units[unit];
+  }
+
+  return total > 0 ? total : null;
+}
+
+export function formatDuration(ms: number): string {
+  const parts: string[] = [];
+  let remaining = Math.floor(ms / 1000);
+
+  for (const [unit, seconds] of [
+    ["d", 86400],
+    ["h", 3600],
+    ["m", 60],
+    ["s", 1],
+  ] as const) {
+    const amount = Math.floor(remaining / seconds);
+    if (amount > 0) {
+      parts.push(`${amount}${unit}`);
+      remaining -= amount * seconds;
+    }
+  }
+
+  return parts.join(" ") || "0s";
+}
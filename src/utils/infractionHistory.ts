@@ -0,0 +1,273 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  embedLength,
+  User,
+} from "discord.js";
+import database, {
+  Infraction,
+  InfractionAction,
+  InfractionHistoryEntry,
+  InfractionStatus,
+  InfractionType,
+  UserNote,
+} from "../database/database";
+import { getActivePoints, isDecayed } from "./points";
+import { formatEvidenceLinks } from "../services/evidence";
+import { formatCase } from "./cases";
+import { formatDmStatus } from "./moderation";
+import { buildCustomId } from "../interactions/router";
+
+export const INFRACTIONS_PER_PAGE = 5;
+export const HISTORY_BUTTON_ID = "infractions:{userId:snowflake}:{type}:{page:int}";
+const NOTES_IN_HISTORY = 3;
+
+// Discord rejects embeds over these limits
+const MAX_FIELD_LENGTH = 1024;
+const MAX_EMBED_LENGTH = 6000;
+// Room kept for each field's name, e.g. "TIMEOUT • Case #1234"
+const FIELD_NAME_RESERVE = 64;
+// Long free text is shortened so the rest of an entry still fits
+const MAX_REASON_PREVIEW = 300;
+const MAX_NOTE_PREVIEW = 200;
+const MAX_EVIDENCE_PREVIEW = 400;
+
+export interface InfractionFieldOptions {
+  /** Maximum length of the field value. */
+  limit?: number;
+  /** Starts the value with a mention of the punished user. */
+  showUser?: boolean;
+}
+
+export interface HistoryPage {
+  embeds: EmbedBuilder[];
+  components: ActionRowBuilder<ButtonBuilder>[];
+}
+
+const typeColors: Record<InfractionType, number> = {
+  [InfractionType.WARN]: 0xffcc00,
+  [InfractionType.MUTE]: 0xff8000,
+  [InfractionType.TIMEOUT]: 0xff8000,
+  [InfractionType.KICK]: 0xff6b35,
+  [InfractionType.BAN]: 0xff0000,
+};
+
+function truncate(text: string, limit: number): string {
+  return text.length <= limit ? text : `${text.slice(0, limit - 1)}…`;
+}
+
+/**
+ * Joins whole lines while they fit within `limit`, so markup is never cut in
+ * half. Lines that would overflow are left out.
+ */
+function joinLines(lines: string[], limit = MAX_FIELD_LENGTH): string {
+  let value = "";
+  for (const line of lines) {
+    const next = value ? `${value}\n${line}` : line;
+    if (next.length <= limit) value = next;
+  }
+  return value;
+}
+
+/**
+ * Shares what is left of the embed's 6000 characters between `count` more
+ * fields, up to the 1024 each field allows.
+ */
+export function getFieldBudget(embed: EmbedBuilder, count: number): number {
+  const remaining = MAX_EMBED_LENGTH - embedLength(embed.data);
+  const share = Math.floor(remaining / Math.max(count, 1)) - FIELD_NAME_RESERVE;
+  return Math.max(0, Math.min(MAX_FIELD_LENGTH, share));
+}
+
+function formatEvidencePreview(links: string[]): string {
+  const shown: string[] = [];
+  for (const [index, link] of links.entries()) {
+    const more = ` • +${links.length - index} more`;
+    if ([...shown, link].join(" • ").length + more.length > MAX_EVIDENCE_PREVIEW) {
+      return shown.length > 0 ? `${shown.join(" • ")}${more}` : `${links.length} item(s)`;
+    }
+    shown.push(link);
+  }
+  return shown.join(" • ");
+}
+
+export function formatInfractionField(
+  infraction: Infraction,
+  { limit = MAX_FIELD_LENGTH, showUser = false }: InfractionFieldOptions = {}
+): { name: string; value: string } {
+  const lines = [
+    ...(showUser ? [`**User:** <@${infraction.userId}>`] : []),
+    `**Reason:** ${truncate(infraction.reason, MAX_REASON_PREVIEW)}`,
+    `**Moderator:** <@${infraction.moderatorId}>`,
+    `**Date:** <t:${Math.floor(infraction.createdAt.getTime() / 1000)}:f>`,
+    `**Points:** ${infraction.points}${isDecayed(infraction) ? " (decayed)" : ""}`,
+  ];
+
+  const evidence = database.getInfractionEvidence(infraction.id);
+  if (evidence.length > 0) {
+    lines.push(`**Evidence:** ${formatEvidencePreview(formatEvidenceLinks(evidence).split("\n"))}`);
+  }
+
+  if (infraction.dmStatus) {
+    lines.push(`**DM:** ${formatDmStatus(infraction.dmStatus)}`);
+  }
+
+  if (infraction.parentId) {
+    const parent = database.getInfractionById(infraction.guildId, infraction.parentId);
+    lines.push(`**Triggered by:** ${parent ? formatCase(parent) : "Unknown"}`);
+  }
+
+  if (infraction.expiresAt) {
+    const expiry = `<t:${Math.floor(infraction.expiresAt.getTime() / 1000)}:R>`;
+    lines.push(infraction.expired ? `**Expired:** ${expiry}` : `**Expires:** ${expiry}`);
+  }
+
+  if (infraction.status !== InfractionStatus.ACTIVE) {
+    lines.push(`**Status:** ${infraction.status}`);
+  }
+
+  return {
+    name: `${infraction.type} • ${formatCase(infraction)}`,
+    value: joinLines(lines, limit) || "\u200b",
+  };
+}
+
+export function formatHistoryEntry(entry: InfractionHistoryEntry): string {
+  const timestamp = `<t:${Math.floor(entry.createdAt.getTime() / 1000)}:f>`;
+  const change =
+    entry.action === InfractionAction.REASON_EDITED
+      ? `reason changed from "${truncate(entry.oldValue ?? "", MAX_REASON_PREVIEW)}"`
+      : entry.action.toLowerCase();
+
+  return `${timestamp} — ${change} by <@${entry.moderatorId}>: ${truncate(entry.reason, MAX_REASON_PREVIEW)}`;
+}
+
+/** Pass `maxLength` to shorten the note's content for a preview. */
+export function formatNote(note: UserNote, maxLength?: number): string {
+  const edited = note.updatedAt
+    ? ` (edited <t:${Math.floor(note.updatedAt.getTime() / 1000)}:R>)`
+    : "";
+  return `**#${note.id}** <@${note.authorId}> <t:${Math.floor(
+    note.createdAt.getTime() / 1000
+  )}:d>${edited}: ${maxLength ? truncate(note.content, maxLength) : note.content}`;
+}
+
+export function createInfractionEmbed(infraction: Infraction): EmbedBuilder {
+  const field = formatInfractionField(infraction);
+  const history = database.getInfractionHistory(infraction.id);
+
+  const embed = new EmbedBuilder()
+    .setTitle(formatCase(infraction))
+    .setDescription(`<@${infraction.userId}> (${infraction.userId})`)
+    .addFields(
+      { name: infraction.type, value: field.value },
+      {
+        name: "User's Active Points",
+        value: `${getActivePoints(infraction.userId, infraction.guildId)}`,
+      }
+    )
+    .setColor(
+      infraction.status === InfractionStatus.ACTIVE
+        ? typeColors[infraction.type] ?? 0x0099ff
+        : 0x808080
+    )
+    .setTimestamp(infraction.createdAt);
+
+  if (history.length > 0) {
+    embed.addFields({
+      name: "Change History",
+      value: joinLines(history.map(formatHistoryEntry)),
+    });
+  }
+
+  return embed;
+}
+
+/**
+ * Builds one page of a member's infraction history. All state needed to render
+ * the neighbouring pages is encoded in the button custom IDs, so the buttons
+ * keep working after a restart. Pass the bare ID when the user can't be
+ * fetched; the page then shows the ID in place of their tag and avatar.
+ */
+export function buildHistoryPage(
+  user: User | string,
+  guildId: string,
+  type: InfractionType | null,
+  page: number
+): HistoryPage {
+  const userId = typeof user === "string" ? user : user.id;
+  const infractions = database.getUserInfractions(userId, guildId, type ?? undefined);
+  const totalPages = Math.max(1, Math.ceil(infractions.length / INFRACTIONS_PER_PAGE));
+  const currentPage = Math.min(Math.max(page, 0), totalPages - 1);
+  const pageItems = infractions.slice(
+    currentPage * INFRACTIONS_PER_PAGE,
+    (currentPage + 1) * INFRACTIONS_PER_PAGE
+  );
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Infractions for ${typeof user === "string" ? user : user.tag}`)
+    .setThumbnail(typeof user === "string" ? null : user.displayAvatarURL())
+    .setColor(0x0099ff)
+    .setTimestamp()
+    .setFooter({
+      text: `Page ${currentPage + 1}/${totalPages} • ${infractions.length} total${
+        type ? ` • ${type} only` : ""
+      }`,
+    })
+    .addFields({
+      name: "Active Points",
+      value: `${getActivePoints(userId, guildId)}`,
+      inline: false,
+    });
+
+  // Notes are staff-only context and never count toward the totals above
+  const notes = database.getUserNotes(guildId, userId);
+  if (notes.length > 0) {
+    const shown = notes.slice(0, NOTES_IN_HISTORY).map((note) => formatNote(note, MAX_NOTE_PREVIEW));
+    const more =
+      notes.length > NOTES_IN_HISTORY
+        ? `\n…and ${notes.length - NOTES_IN_HISTORY} more. Use \`/note list\` to see them all.`
+        : "";
+    embed.addFields({
+      name: `Staff Notes (${notes.length})`,
+      value: joinLines(shown, MAX_FIELD_LENGTH - more.length) + more,
+    });
+  }
+
+  if (pageItems.length === 0) {
+    embed.setDescription(
+      type ? `No ${type} infractions on record.` : "No infractions on record."
+    );
+  } else {
+    const limit = getFieldBudget(embed, pageItems.length);
+    embed.addFields(pageItems.map((infraction) => formatInfractionField(infraction, { limit })));
+  }
+
+  const components: ActionRowBuilder<ButtonBuilder>[] = [];
+  if (totalPages > 1) {
+    const typeKey = type ?? "ALL";
+    const previousButton = new ButtonBuilder()
+      .setCustomId(
+        buildCustomId(HISTORY_BUTTON_ID, { userId, type: typeKey, page: currentPage - 1 })
+      )
+      .setLabel("Previous")
+      .setEmoji("◀️")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(currentPage === 0);
+
+    const nextButton = new ButtonBuilder()
+      .setCustomId(
+        buildCustomId(HISTORY_BUTTON_ID, { userId, type: typeKey, page: currentPage + 1 })
+      )
+      .setLabel("Next")
+      .setEmoji("▶️")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(currentPage >= totalPages - 1);
+
+    components.push(new ActionRowBuilder<ButtonBuilder>().addComponents(previousButton, nextButton));
+  }
+
+  return { embeds: [embed], components };
+}
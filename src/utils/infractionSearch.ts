@@ -0,0 +1,151 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder } from "discord.js";
+import database, { InfractionSearchFilters, InfractionType } from "../database/database";
+import {
+  formatInfractionField,
+  getFieldBudget,
+  HistoryPage,
+  INFRACTIONS_PER_PAGE,
+} from "./infractionHistory";
+import { buildCustomId } from "../interactions/router";
+
+// Dates are stored as whole days since the epoch to keep the ID short
+export const SEARCH_BUTTON_ID =
+  "infsearch:{page:int}:{moderator}:{type}:{since}:{until}:{query:rest}";
+
+// Custom IDs are capped at 100 characters and the query is stored last
+export const MAX_SEARCH_QUERY_LENGTH = 36;
+
+export interface InfractionSearch {
+  query: string;
+  filters: InfractionSearchFilters;
+}
+
+export interface SearchPageParams {
+  page: number;
+  moderator: string;
+  type: string;
+  since: string;
+  until: string;
+  query: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses a YYYY-MM-DD date as the start of that day in UTC. Returns null for
+ * anything else, including impossible dates such as 2024-02-31.
+ */
+export function parseSearchDate(input: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(input.trim());
+  if (!match) return null;
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().startsWith(input.trim()) ? date : null;
+}
+
+/** Makes an inclusive "to" date exclusive by moving it to the following midnight. */
+export function endOfSearchDay(date: Date): Date {
+  return new Date(date.getTime() + DAY_MS);
+}
+
+function encodeDate(date?: Date): string {
+  return date ? `${Math.floor(date.getTime() / DAY_MS)}` : "-";
+}
+
+function decodeDate(value: string): Date | undefined {
+  return value === "-" ? undefined : new Date(Number(value) * DAY_MS);
+}
+
+function encodeSearch(search: InfractionSearch, page: number): string {
+  const { moderatorId, type, since, until } = search.filters;
+  return buildCustomId(SEARCH_BUTTON_ID, {
+    page,
+    moderator: moderatorId ?? "-",
+    type: type ?? "ALL",
+    since: encodeDate(since),
+    until: encodeDate(until),
+    query: search.query,
+  });
+}
+
+export function decodeSearch(params: SearchPageParams): InfractionSearch {
+  return {
+    query: params.query,
+    filters: {
+      moderatorId: params.moderator === "-" ? undefined : params.moderator,
+      type: params.type === "ALL" ? undefined : (params.type as InfractionType),
+      since: decodeDate(params.since),
+      until: decodeDate(params.until),
+    },
+  };
+}
+
+function describeFilters(filters: InfractionSearchFilters): string {
+  const parts = [
+    filters.moderatorId && `by <@${filters.moderatorId}>`,
+    filters.type && `${filters.type} only`,
+    filters.since && `from ${filters.since.toISOString().slice(0, 10)}`,
+    filters.until && `until ${new Date(filters.until.getTime() - DAY_MS).toISOString().slice(0, 10)}`,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? `\nFilters: ${parts.join(", ")}` : "";
+}
+
+/** Builds one page of ranked search results, best match first. */
+export function buildSearchPage(guildId: string, search: InfractionSearch, page: number): HistoryPage {
+  const fetchPage = (index: number) =>
+    database.searchInfractions(
+      guildId,
+      search.query,
+      search.filters,
+      INFRACTIONS_PER_PAGE,
+      index * INFRACTIONS_PER_PAGE
+    );
+
+  let currentPage = Math.max(page, 0);
+  let { infractions, total } = fetchPage(currentPage);
+  const totalPages = Math.max(1, Math.ceil(total / INFRACTIONS_PER_PAGE));
+
+  // Results may have shrunk since the buttons were rendered
+  if (currentPage >= totalPages) {
+    currentPage = totalPages - 1;
+    ({ infractions, total } = fetchPage(currentPage));
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Search: "${search.query}"`)
+    .setColor(0x0099ff)
+    .setTimestamp()
+    .setFooter({ text: `Page ${currentPage + 1}/${totalPages} • ${total} match(es)` });
+
+  if (infractions.length === 0) {
+    embed.setDescription(`No infractions matched.${describeFilters(search.filters)}`);
+  } else {
+    embed.setDescription(`Best matches first.${describeFilters(search.filters)}`);
+    const limit = getFieldBudget(embed, infractions.length);
+    embed.addFields(
+      infractions.map((infraction) => formatInfractionField(infraction, { limit, showUser: true }))
+    );
+  }
+
+  const components: ActionRowBuilder<ButtonBuilder>[] = [];
+  if (totalPages > 1) {
+    const previousButton = new ButtonBuilder()
+      .setCustomId(encodeSearch(search, currentPage - 1))
+      .setLabel("Previous")
+      .setEmoji("◀️")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(currentPage === 0);
+
+    const nextButton = new ButtonBuilder()
+      .setCustomId(encodeSearch(search, currentPage + 1))
+      .setLabel("Next")
+      .setEmoji("▶️")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(currentPage >= totalPages - 1);
+
+    components.push(new ActionRowBuilder<ButtonBuilder>().addComponents(previousButton, nextButton));
+  }
+
+  return { embeds: [embed], components };
+}
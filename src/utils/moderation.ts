@@ -0,0 +1,292 @@
+import {
+  DiscordAPIError,
+  EmbedBuilder,
+  Guild,
+  GuildMember,
+  PermissionFlagsBits,
+  Role,
+  User,
+} from "discord.js";
+import database, { DmStatus, Infraction, InfractionType, ModLogEvent } from "../database/database";
+import { sendModLog } from "../services/modLog";
+import { createAppealButtonRow } from "../services/appeals";
+import { formatCase } from "./cases";
+
+export const DEFAULT_APPEAL_TEXT =
+  "If you believe this was issued in error, you can appeal it with the Appeal button below.";
+
+export interface PunishmentDetails {
+  type: InfractionType;
+  reason: string;
+  moderator: string;
+  infraction?: Infraction;
+  duration?: string;
+  dmStatus?: DmStatus;
+}
+
+// Discord's "Cannot send messages to this user": DMs closed or the bot is blocked
+const CANNOT_MESSAGE_USER = 50007;
+
+const dmStatusLabels: Record<DmStatus, string> = {
+  [DmStatus.DELIVERED]: "✅ Delivered",
+  [DmStatus.BLOCKED]: "🚫 Blocked (DMs closed)",
+  [DmStatus.FAILED]: "⚠️ Failed",
+};
+
+const punishmentLabels: Record<InfractionType, { title: string; color: number; emoji: string }> = {
+  [InfractionType.WARN]: { title: "Warned", color: 0xffcc00, emoji: "🔺" },
+  [InfractionType.MUTE]: { title: "Muted", color: 0xff8000, emoji: "🔇" },
+  [InfractionType.TIMEOUT]: { title: "Timed Out", color: 0xff8000, emoji: "⏳" },
+  [InfractionType.KICK]: { title: "Kicked", color: 0xff6b35, emoji: "👢" },
+  [InfractionType.BAN]: { title: "Banned", color: 0xff0000, emoji: "🔨" },
+};
+
+/**
+ * Checks the member against the moderator roles configured with /config.
+ * Administrators always count as moderators so a fresh guild isn't locked out.
+ */
+export function hasModeratorRole(member: GuildMember): boolean {
+  if (member.permissions.has(PermissionFlagsBits.Administrator)) return true;
+
+  const { modRoleIds } = database.getGuildSettings(member.guild.id);
+  return modRoleIds.some((roleId) => member.roles.cache.has(roleId));
+}
+
+export function getMutedRole(guild: Guild): Role | null {
+  const { mutedRoleId } = database.getGuildSettings(guild.id);
+  return mutedRoleId ? guild.roles.cache.get(mutedRoleId) ?? null : null;
+}
+
+/**
+ * Undoes a ban, mute or timeout that is still in effect on Discord, e.g. when
+ * it expires or its case is revoked. Warnings and kicks have nothing to undo,
+ * and nothing is lifted while another active case of the same type applies.
+ */
+export async function liftPunishment(guild: Guild, infraction: Infraction, reason: string): Promise<void> {
+  if (database.hasOtherActivePunishment(infraction)) return;
+
+  switch (infraction.type) {
+    case InfractionType.BAN: {
+      const ban = await guild.bans.fetch(infraction.userId).catch(() => null);
+      if (ban) {
+        await guild.members.unban(infraction.userId, reason);
+      }
+      break;
+    }
+    case InfractionType.MUTE: {
+      const member = await guild.members.fetch(infraction.userId).catch(() => null);
+      const mutedRole = getMutedRole(guild);
+      if (member && mutedRole && member.roles.cache.has(mutedRole.id)) {
+        await member.roles.remove(mutedRole, reason);
+      }
+      break;
+    }
+    case InfractionType.TIMEOUT: {
+      const member = await guild.members.fetch(infraction.userId).catch(() => null);
+      if (member?.isCommunicationDisabled()) {
+        await member.timeout(null, reason);
+      }
+      break;
+    }
+    default:
+      break;
+  }
+}
+
+/**
+ * Lifts the punishment of a case that was just revoked, pardoned or appealed.
+ * Returns a user-facing error when that failed, otherwise null.
+ */
+export async function undoPunishment(
+  guild: Guild,
+  infraction: Infraction,
+  reason: string
+): Promise<string | null> {
+  if (infraction.expired) return null;
+
+  try {
+    await liftPunishment(guild, infraction, reason);
+    return null;
+  } catch (error) {
+    console.error(`Failed to lift ${infraction.type} ${formatCase(infraction)} in ${guild.id}:`, error);
+    return `I couldn't lift the ${infraction.type.toLowerCase()} on Discord, so it has to be removed by hand: ${
+      (error as Error).message
+    }`;
+  }
+}
+
+/**
+ * Returns a user-facing error when either the bot or the moderator is not
+ * high enough in the role hierarchy to act on the target, otherwise null.
+ */
+export function getHierarchyError(
+  member: GuildMember,
+  targetMember: GuildMember,
+  guild: Guild,
+  verb: string
+): string | null {
+  if (!targetMember.manageable) {
+    return `I cannot ${verb} ${targetMember.user.tag} due to role hierarchy. Their highest role is equal to or higher than mine.`;
+  }
+
+  if (
+    member.roles.highest.position <= targetMember.roles.highest.position &&
+    member.id !== guild.ownerId
+  ) {
+    return `You cannot ${verb} someone with an equal or higher role.`;
+  }
+
+  return null;
+}
+
+export function formatDmStatus(status?: DmStatus): string {
+  return status ? dmStatusLabels[status] : "Not sent";
+}
+
+export function getDmFailureStatus(error: unknown): DmStatus {
+  return error instanceof DiscordAPIError && error.code === CANNOT_MESSAGE_USER
+    ? DmStatus.BLOCKED
+    : DmStatus.FAILED;
+}
+
+// Kicked and banned users can't be reached for the outcome, so only
+// punishments that keep them in the server can be appealed
+function canAppeal(details: Pick<PunishmentDetails, "type" | "infraction">): boolean {
+  return (
+    details.infraction !== undefined &&
+    details.type !== InfractionType.KICK &&
+    details.type !== InfractionType.BAN
+  );
+}
+
+/**
+ * Stores how the punishment DM went on the infraction. When it didn't arrive
+ * and the guild has a fallback channel, the notice is posted there with a
+ * mention instead. Kicked and banned users can't see that channel, so they
+ * get no fallback.
+ */
+export async function recordDmStatus(
+  user: User,
+  guild: Guild,
+  details: Pick<PunishmentDetails, "type" | "reason" | "infraction">,
+  status: DmStatus
+): Promise<void> {
+  if (details.infraction) {
+    database.setInfractionDmStatus(guild.id, details.infraction.id, status);
+  }
+
+  if (status === DmStatus.DELIVERED) return;
+  if (details.type === InfractionType.KICK || details.type === InfractionType.BAN) return;
+
+  const { dmFallbackChannelId } = database.getGuildSettings(guild.id);
+  const channel = dmFallbackChannelId ? guild.channels.cache.get(dmFallbackChannelId) : null;
+  if (!channel || !channel.isTextBased()) return;
+
+  const label = punishmentLabels[details.type];
+  const notice = new EmbedBuilder()
+    .setTitle(`You have been ${label.title.toLowerCase()}`)
+    .setDescription(details.reason)
+    .addFields({
+      name: "Case",
+      value: details.infraction ? `#${details.infraction.caseNumber}` : "Unknown",
+      inline: true,
+    })
+    .setColor(label.color)
+    .setTimestamp()
+    .setFooter({ text: "We couldn't reach you by DM, so this notice was posted here." });
+
+  try {
+    await channel.send({
+      content: `<@${user.id}>`,
+      embeds: [notice],
+      components: canAppeal(details) ? [createAppealButtonRow(guild.id, details.infraction!.id)] : [],
+      allowedMentions: { users: [user.id] },
+    });
+  } catch (error) {
+    console.error("Failed to post DM fallback notice:", error);
+  }
+}
+
+/**
+ * DMs the target about a punishment and records the outcome on the
+ * infraction. Returns undefined when DMs are turned off for the guild.
+ */
+export async function sendPunishmentMessageToUser(
+  user: User,
+  guild: Guild,
+  details: PunishmentDetails
+): Promise<DmStatus | undefined> {
+  const settings = database.getGuildSettings(guild.id);
+  if (!settings.dmUsers) return undefined;
+
+  const label = punishmentLabels[details.type];
+  let status: DmStatus;
+
+  try {
+    const embed = new EmbedBuilder()
+      .setTitle(`You have been ${label.title.toLowerCase()} in ${guild.name}`)
+      .setDescription(details.reason)
+      .addFields(
+        {
+          name: "Case",
+          value: details.infraction ? `#${details.infraction.caseNumber}` : "Unknown",
+          inline: true,
+        },
+        { name: "Issued by", value: details.moderator, inline: false },
+        { name: "Date", value: `<t:${Math.floor(Date.now() / 1000)}:F>`, inline: false }
+      )
+      .setColor(label.color)
+      .setTimestamp()
+      .setFooter({
+        text: `Action taken in ${guild.name}`,
+        iconURL: guild.iconURL() || undefined,
+      });
+
+    if (details.duration) {
+      embed.addFields({ name: "Duration", value: details.duration, inline: true });
+    }
+
+    embed.addFields({
+      name: "Appeals",
+      value: settings.appealText ?? DEFAULT_APPEAL_TEXT,
+      inline: false,
+    });
+
+    await user.send({
+      embeds: [embed],
+      components: canAppeal(details) ? [createAppealButtonRow(guild.id, details.infraction!.id)] : [],
+    });
+    status = DmStatus.DELIVERED;
+  } catch (error) {
+    console.error(`Failed to send ${details.type} message to user:`, error);
+    status = getDmFailureStatus(error);
+  }
+
+  await recordDmStatus(user, guild, details, status);
+  return status;
+}
+
+export async function logPunishment(
+  guild: Guild,
+  user: User,
+  details: PunishmentDetails
+): Promise<void> {
+  const label = punishmentLabels[details.type];
+
+  await sendModLog(guild, {
+    event: ModLogEvent.PUNISHMENT,
+    title: `User ${label.title}`,
+    color: label.color,
+    description: `Reason: ${details.reason}`,
+    user: { id: user.id, tag: user.tag },
+    moderator: details.moderator,
+    fields: [
+      ...(details.duration ? [{ name: "Duration", value: details.duration, inline: true }] : []),
+      { name: "DM", value: formatDmStatus(details.dmStatus), inline: true },
+    ],
+    footer: details.infraction ? formatCase(details.infraction) : "Case unknown",
+    summary: `${label.emoji} User ${label.title.toLowerCase()} by ${details.moderator}: ${user.tag} (Reason: ${
+      details.reason
+    })`,
+  });
+}
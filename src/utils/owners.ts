@@ -0,0 +1,24 @@
+import { Client, Team, User } from "discord.js";
+
+/**
+ * Checks whether a user owns the bot itself, as opposed to a guild. The
+ * `OWNER_IDS` environment variable (comma separated) takes precedence;
+ * otherwise the application owner, or every member of the owning team, counts.
+ */
+export async function isBotOwner(client: Client, userId: string): Promise<boolean> {
+  const configured = (process.env.OWNER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (configured.length > 0) {
+    return configured.includes(userId);
+  }
+
+  const application = client.application?.owner ? client.application : await client.application?.fetch();
+  const owner = application?.owner;
+
+  if (owner instanceof Team) {
+    return owner.members.has(userId);
+  }
+  return owner instanceof User && owner.id === userId;
+}
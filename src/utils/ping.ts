@@ -0,0 +1,78 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder, User } from "discord.js";
+import type { ColorResolvable } from "discord.js";
+import { buildCustomId } from "../interactions/router";
+
+export const PING_REFRESH_ID = "ping:refresh:{invoker:snowflake}:{issued:time}";
+export const PING_REFRESH_TTL_MS = 5 * 60 * 1000;
+
+interface LatencyStatus {
+  emoji: string;
+  status: string;
+  color: ColorResolvable;
+}
+
+export interface PingMetrics {
+  roundTripLatency: number;
+  websocketLatency: number;
+  uptime: string;
+}
+
+function getLatencyStatus(latency: number): LatencyStatus {
+  if (latency < 0) return { emoji: "🔴", status: "Error", color: 0xff0000 };
+  if (latency < 100) return { emoji: "🟢", status: "Excellent", color: 0x00ff00 };
+  if (latency < 200) return { emoji: "🟡", status: "Good", color: 0xffff00 };
+  if (latency < 500) return { emoji: "🟠", status: "Fair", color: 0xff8000 };
+  return { emoji: "🔴", status: "Poor", color: 0xff0000 };
+}
+
+export function formatUptime(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  const parts: string[] = [];
+  if (days > 0) parts.push(`${days}d`);
+  if (hours > 0) parts.push(`${hours}h`);
+  if (minutes > 0) parts.push(`${minutes}m`);
+  if (secs > 0) parts.push(`${secs}s`);
+
+  return parts.join(" ") || "0s";
+}
+
+export function createPingEmbed(metrics: PingMetrics, requester: User): EmbedBuilder {
+  const roundTripStatus = getLatencyStatus(metrics.roundTripLatency);
+  const websocketStatus = getLatencyStatus(metrics.websocketLatency);
+
+  return new EmbedBuilder()
+    .setTitle("Ping Statistics")
+    .addFields(
+      {
+        name: "Round Trip Latency",
+        value: `${roundTripStatus.emoji} ${roundTripStatus.status} (${metrics.roundTripLatency}ms)`,
+        inline: true,
+      },
+      {
+        name: "WebSocket Latency",
+        value: `${websocketStatus.emoji} ${websocketStatus.status} (${metrics.websocketLatency}ms)`,
+        inline: true,
+      }
+    )
+    .setColor(roundTripStatus.color)
+    .setTimestamp()
+    .setFooter({
+      text: `Request by ${requester.tag}`,
+      iconURL: requester.displayAvatarURL(),
+    });
+}
+
+/** The refresh button only works for the user who ran /ping, and expires after a few minutes. */
+export function createPingButtonRow(invokerId: string): ActionRowBuilder<ButtonBuilder> {
+  const refreshButton = new ButtonBuilder()
+    .setCustomId(buildCustomId(PING_REFRESH_ID, { invoker: invokerId }))
+    .setLabel("Refresh")
+    .setEmoji("🔄")
+    .setStyle(ButtonStyle.Secondary);
+
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(refreshButton);
+}
@@ -0,0 +1,21 @@
+import database, { Infraction } from "../database/database";
+
+export const DEFAULT_POINT_DECAY_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getPointDecayDays(guildId: string): number {
+  return database.getGuildSettings(guildId).pointDecayDays ?? DEFAULT_POINT_DECAY_DAYS;
+}
+
+/** Infractions created before this moment have decayed and no longer count. */
+export function getDecayCutoff(guildId: string, now: Date = new Date()): Date {
+  return new Date(now.getTime() - getPointDecayDays(guildId) * DAY_MS);
+}
+
+export function isDecayed(infraction: Infraction): boolean {
+  return infraction.createdAt < getDecayCutoff(infraction.guildId);
+}
+
+export function getActivePoints(userId: string, guildId: string): number {
+  return database.getActivePoints(userId, guildId, getDecayCutoff(guildId));
+}
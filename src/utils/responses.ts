@@ -0,0 +1,49 @@
+import { EmbedBuilder, RepliableInteraction } from "discord.js";
+
+/**
+ * Thrown from a command or middleware to stop it and show `message` to the
+ * user. Any other error is logged and answered with a generic message.
+ */
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+export function createErrorEmbed(message: string): EmbedBuilder {
+  return new EmbedBuilder()
+    .setTitle("❌ Error")
+    .setDescription(message)
+    .setColor(0xff0000)
+    .setTimestamp();
+}
+
+/**
+ * Replies with an error embed only the user can see. A deferred ephemeral
+ * reply is edited in place. A public "thinking…" placeholder is deleted
+ * first, since a follow-up would otherwise replace it publicly; anything
+ * already answered gets an ephemeral follow-up.
+ */
+export async function sendErrorResponse(
+  interaction: RepliableInteraction,
+  message: string
+): Promise<void> {
+  const errorEmbed = createErrorEmbed(message);
+
+  try {
+    if (interaction.deferred && !interaction.replied && interaction.ephemeral) {
+      await interaction.editReply({ content: null, embeds: [errorEmbed], components: [] });
+    } else if (interaction.deferred && !interaction.replied && !interaction.isMessageComponent()) {
+      // Components may have deferred an update to their own message, which must stay
+      await interaction.deleteReply();
+      await interaction.followUp({ embeds: [errorEmbed], ephemeral: true });
+    } else if (interaction.replied || interaction.deferred) {
+      await interaction.followUp({ embeds: [errorEmbed], ephemeral: true });
+    } else {
+      await interaction.reply({ embeds: [errorEmbed], ephemeral: true });
+    }
+  } catch (replyError) {
+    console.error("Failed to send error response:", replyError);
+  }
+}
@@ -0,0 +1,116 @@
+import database, { InfractionType, toFtsQuery } from '../../src/database/database';
+
+jest.mock('../../src/database/paths', () => ({
+  DATA_DIR: '',
+  DATABASE_PATH: ':memory:',
+  ensureDataDir: () => undefined
+}));
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  database.open();
+});
+
+afterAll(() => {
+  database.close();
+  jest.restoreAllMocks();
+});
+
+describe('addInfraction', () => {
+  it('numbers cases per guild, starting at 1', () => {
+    const first = database.addInfraction('user-1', 'case-guild-a', 'mod-1', InfractionType.WARN, 'First');
+    const second = database.addInfraction('user-2', 'case-guild-a', 'mod-1', InfractionType.KICK, 'Second');
+    const otherGuild = database.addInfraction('user-1', 'case-guild-b', 'mod-1', InfractionType.WARN, 'Elsewhere');
+
+    expect(first.caseNumber).toBe(1);
+    expect(second.caseNumber).toBe(2);
+    expect(otherGuild.caseNumber).toBe(1);
+  });
+
+  it('never reuses a case number', () => {
+    const cases = Array.from({ length: 20 }, (_, index) =>
+      database.addInfraction(`user-${index}`, 'case-guild-c', 'mod-1', InfractionType.WARN, `Reason ${index}`).caseNumber
+    );
+
+    expect(new Set(cases).size).toBe(cases.length);
+    expect(Math.max(...cases)).toBe(cases.length);
+  });
+
+  it('looks the infraction up by its case number', () => {
+    const infraction = database.addInfraction('user-1', 'case-guild-d', 'mod-1', InfractionType.BAN, 'Raiding', {
+      points: 7,
+      createdAt: new Date('2024-03-01T12:00:00Z')
+    });
+
+    const found = database.getInfractionByCase('case-guild-d', infraction.caseNumber);
+    expect(found).toMatchObject({ id: infraction.id, type: InfractionType.BAN, points: 7 });
+    expect(found?.createdAt.toISOString()).toBe('2024-03-01T12:00:00.000Z');
+  });
+});
+
+describe('active punishments', () => {
+  const later = new Date(Date.now() + 60 * 60 * 1000);
+
+  it('closes earlier cases of the same type when a new one is issued', () => {
+    const first = database.addInfraction('user-1', 'lift-guild-a', 'mod-1', InfractionType.TIMEOUT, 'Spam', { expiresAt: later });
+    const mute = database.addInfraction('user-1', 'lift-guild-a', 'mod-1', InfractionType.MUTE, 'Spam', { expiresAt: later });
+    const second = database.addInfraction('user-1', 'lift-guild-a', 'mod-1', InfractionType.TIMEOUT, 'Spam again', { expiresAt: later });
+
+    expect(database.getInfractionById('lift-guild-a', first.id)?.expired).toBe(true);
+    expect(database.getInfractionById('lift-guild-a', mute.id)?.expired).toBe(false);
+    expect(second.expired).toBe(false);
+    expect(database.getInfractionHistory(first.id)).toEqual([
+      expect.objectContaining({ action: 'EXPIRED', reason: `Superseded by Case #${second.caseNumber}` })
+    ]);
+  });
+
+  it('leaves imported cases alone', () => {
+    const current = database.addInfraction('user-1', 'lift-guild-b', 'mod-1', InfractionType.BAN, 'Raiding');
+    database.addInfraction('user-1', 'lift-guild-b', 'mod-1', InfractionType.BAN, 'Old ban', {
+      createdAt: new Date('2023-01-01T00:00:00Z')
+    });
+
+    expect(database.getInfractionById('lift-guild-b', current.id)?.expired).toBe(false);
+  });
+
+  it('reports when another case still applies', () => {
+    const permanent = database.addInfraction('user-1', 'lift-guild-c', 'mod-1', InfractionType.BAN, 'Raiding');
+    const lapsed = database.addInfraction('user-2', 'lift-guild-c', 'mod-1', InfractionType.BAN, 'Raiding', {
+      expiresAt: new Date(Date.now() - 1000)
+    });
+    const other = { ...permanent, id: 'OTHER001' };
+
+    expect(database.hasOtherActivePunishment(permanent)).toBe(false);
+    expect(database.hasOtherActivePunishment(other)).toBe(true);
+    expect(database.hasOtherActivePunishment({ ...lapsed, id: 'OTHER002' })).toBe(false);
+
+    expect(database.expireActivePunishments('lift-guild-c', 'user-1', InfractionType.BAN, 'mod-1', 'Unbanned')).toBe(1);
+    expect(database.hasOtherActivePunishment(other)).toBe(false);
+  });
+});
+
+describe('toFtsQuery', () => {
+  it('quotes every word and lets the last one match a prefix', () => {
+    expect(toFtsQuery('spam links')).toBe('"spam" "links"*');
+  });
+
+  it('strips FTS5 operators and punctuation', () => {
+    expect(toFtsQuery('spam OR "raid" -links (NEAR)')).toBe('"spam" "OR" "raid" "links" "NEAR"*');
+  });
+
+  it('keeps non-Latin letters and numbers', () => {
+    expect(toFtsQuery('café 2024')).toBe('"café" "2024"*');
+  });
+
+  it('returns null when there is nothing to search for', () => {
+    expect(toFtsQuery('  *** ')).toBeNull();
+  });
+
+  it('finds infractions by a partial last word', () => {
+    database.addInfraction('user-1', 'search-guild', 'mod-1', InfractionType.WARN, 'Posting scam links in general');
+
+    const { infractions, total } = database.searchInfractions('search-guild', 'scam li');
+    expect(total).toBe(1);
+    expect(infractions[0].reason).toBe('Posting scam links in general');
+  });
+});
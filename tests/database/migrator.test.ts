@@ -0,0 +1,122 @@
+import Database from 'better-sqlite3';
+import {
+  getLatestVersion,
+  getPendingMigrations,
+  getSchemaVersion,
+  runMigrations,
+  SchemaTooNewError
+} from '../../src/database/migrator';
+
+function listTables(db: Database.Database): string[] {
+  const rows = db.prepare(`SELECT name FROM sqlite_master WHERE type IN ('table', 'view') ORDER BY name`).all() as any[];
+  return rows.map(row => row.name);
+}
+
+function listColumns(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as any[]).map(column => column.name);
+}
+
+// The only table the bot created before the schema was versioned
+function createBaselineDatabase(): Database.Database {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE user_infractions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      guild_id TEXT NOT NULL,
+      moderator_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const insert = db.prepare(`
+    INSERT INTO user_infractions (id, user_id, guild_id, moderator_id, type, reason, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  insert.run('AAAA0002', 'user-1', 'guild-a', 'mod-1', 'BAN', 'Raiding the server', '2024-01-02 10:00:00');
+  insert.run('AAAA0001', 'user-1', 'guild-a', 'mod-1', 'WARN', 'Spamming links', '2024-01-01 10:00:00');
+  insert.run('BBBB0001', 'user-2', 'guild-b', 'mod-2', 'MUTE', 'Shouting in voice', '2024-01-03 10:00:00');
+  return db;
+}
+
+describe('runMigrations', () => {
+  it('builds the full schema on a fresh database', () => {
+    const db = new Database(':memory:');
+
+    const applied = runMigrations(db);
+
+    expect(applied.map(migration => migration.version)).toEqual(
+      Array.from({ length: getLatestVersion() }, (_, index) => index + 1)
+    );
+    expect(getSchemaVersion(db)).toBe(getLatestVersion());
+    expect(listTables(db)).toEqual(expect.arrayContaining([
+      'user_infractions',
+      'infraction_history',
+      'infraction_evidence',
+      'infraction_appeals',
+      'infraction_search',
+      'escalation_rules',
+      'guild_settings',
+      'command_permissions',
+      'user_notes',
+      'mod_log_routes'
+    ]));
+    expect(listColumns(db, 'user_infractions')).toEqual(expect.arrayContaining(['case_number', 'dm_status', 'points']));
+    expect(listColumns(db, 'guild_settings')).toEqual(expect.arrayContaining(['dm_fallback_channel_id', 'cooldown_bypass_role_ids']));
+  });
+
+  it('does nothing once the schema is up to date', () => {
+    const db = new Database(':memory:');
+    runMigrations(db);
+
+    expect(getPendingMigrations(db)).toEqual([]);
+    expect(runMigrations(db)).toEqual([]);
+  });
+
+  it('upgrades a database from before versioning and keeps its infractions', () => {
+    const db = createBaselineDatabase();
+
+    runMigrations(db);
+
+    expect(getSchemaVersion(db)).toBe(getLatestVersion());
+    const rows = db.prepare('SELECT id, guild_id, case_number, points, status, expired FROM user_infractions ORDER BY id').all();
+    expect(rows).toEqual([
+      { id: 'AAAA0001', guild_id: 'guild-a', case_number: 1, points: 1, status: 'ACTIVE', expired: 0 },
+      { id: 'AAAA0002', guild_id: 'guild-a', case_number: 2, points: 5, status: 'ACTIVE', expired: 0 },
+      { id: 'BBBB0001', guild_id: 'guild-b', case_number: 1, points: 2, status: 'ACTIVE', expired: 0 }
+    ]);
+  });
+
+  it('indexes existing reasons for search', () => {
+    const db = createBaselineDatabase();
+
+    runMigrations(db);
+
+    const matches = db.prepare(`SELECT infraction_id FROM infraction_search WHERE infraction_search MATCH ?`).all('"raiding"');
+    expect(matches).toEqual([{ infraction_id: 'AAAA0002' }]);
+  });
+
+  it('moves evidence out of the old single-URL column', () => {
+    const db = createBaselineDatabase();
+    db.exec(`
+      ALTER TABLE user_infractions ADD COLUMN evidence TEXT;
+      UPDATE user_infractions SET evidence = 'https://example.com/proof.png' WHERE id = 'AAAA0001';
+    `);
+
+    runMigrations(db);
+
+    expect(db.prepare('SELECT infraction_id, url, added_by FROM infraction_evidence').all()).toEqual([
+      { infraction_id: 'AAAA0001', url: 'https://example.com/proof.png', added_by: 'mod-1' }
+    ]);
+    expect(db.prepare('SELECT COUNT(*) as count FROM user_infractions WHERE evidence IS NOT NULL').get()).toEqual({ count: 0 });
+  });
+
+  it('refuses a database from a newer build', () => {
+    const db = new Database(':memory:');
+    db.pragma(`user_version = ${getLatestVersion() + 1}`);
+
+    expect(() => runMigrations(db)).toThrow(SchemaTooNewError);
+  });
+});
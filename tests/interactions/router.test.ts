@@ -0,0 +1,79 @@
+import { buildCustomId, matchCustomId, MAX_CUSTOM_ID_LENGTH } from "../../src/interactions/router";
+
+const USER_ID = "123456789012345678";
+
+describe("matchCustomId", () => {
+  it("parses each parameter type", () => {
+    const pattern = "test:{name}:{count:int}:{user:snowflake}:{flag:bool}:{issued:time}:{rest:rest}";
+
+    expect(matchCustomId(pattern, `test:abc:-3:${USER_ID}:1:1a:x:y:z`)).toEqual({
+      name: "abc",
+      count: -3,
+      user: USER_ID,
+      flag: true,
+      issued: new Date(46 * 1000),
+      rest: "x:y:z",
+    });
+  });
+
+  it("treats untyped placeholders as strings that stop at a colon", () => {
+    expect(matchCustomId("appeal:{guildId:snowflake}:{infractionId}", `appeal:${USER_ID}:AB12CD34`)).toEqual({
+      guildId: USER_ID,
+      infractionId: "AB12CD34",
+    });
+    expect(matchCustomId("appeal:{guildId:snowflake}:{infractionId}", `appeal:${USER_ID}:AB:CD`)).toBeNull();
+  });
+
+  it("rejects IDs with the wrong prefix or invalid values", () => {
+    const pattern = "infractions:{userId:snowflake}:{type}:{page:int}";
+
+    expect(matchCustomId(pattern, `infsearch:${USER_ID}:ALL:0`)).toBeNull();
+    expect(matchCustomId(pattern, `infractions:123:ALL:0`)).toBeNull();
+    expect(matchCustomId(pattern, `infractions:${USER_ID}:ALL:next`)).toBeNull();
+  });
+
+  it("matches literal text containing regex characters exactly", () => {
+    expect(matchCustomId("a.b:{id:int}", "a.b:1")).toEqual({ id: 1 });
+    expect(matchCustomId("a.b:{id:int}", "axb:1")).toBeNull();
+  });
+
+  it("throws on an unknown parameter type", () => {
+    expect(() => matchCustomId("bad:{id:uuid}", "bad:1")).toThrow('Unknown parameter type "uuid"');
+  });
+});
+
+describe("buildCustomId", () => {
+  it("round-trips through matchCustomId", () => {
+    const pattern = "infsearch:{page:int}:{moderator}:{type}:{since}:{until}:{query:rest}";
+    const values = { page: 2, moderator: "-", type: "WARN", since: "19700", until: "-", query: "spam: links" };
+
+    expect(matchCustomId(pattern, buildCustomId(pattern, values))).toEqual(values);
+  });
+
+  it("stamps {issued} with the current time when it isn't given", () => {
+    const pattern = "ping:refresh:{invoker:snowflake}:{issued:time}";
+    const before = Math.floor(Date.now() / 1000) * 1000;
+
+    const params = matchCustomId(pattern, buildCustomId(pattern, { invoker: USER_ID }));
+
+    expect((params!.issued as Date).getTime()).toBeGreaterThanOrEqual(before);
+    expect((params!.issued as Date).getTime()).toBeLessThanOrEqual(Date.now());
+  });
+
+  it("throws when a value is missing", () => {
+    expect(() => buildCustomId("appeal-review:{decision}:{appealId:int}", { decision: "accept" })).toThrow(
+      "Missing value for {appealId}"
+    );
+  });
+
+  it("throws when a value doesn't fit its type", () => {
+    expect(() => buildCustomId("infractions:{userId:snowflake}", { userId: "not-an-id" })).toThrow(
+      "Invalid custom ID"
+    );
+  });
+
+  it("throws when the ID is longer than Discord allows", () => {
+    const query = "x".repeat(MAX_CUSTOM_ID_LENGTH);
+    expect(() => buildCustomId("search:{query:rest}", { query })).toThrow("Invalid custom ID");
+  });
+});
@@ -0,0 +1,44 @@
+import { embedLength } from "discord.js";
+import { ModLogEvent } from "../../src/database/database";
+import { buildModLogEmbed } from "../../src/services/modLog";
+
+describe("buildModLogEmbed", () => {
+  const entry = {
+    event: ModLogEvent.INFRACTION,
+    title: "Reason Edited",
+    color: 0x0099ff,
+    user: { id: "300000000000000001" },
+    summary: "Reason edited",
+  };
+
+  it("cuts long field values to Discord's limit", () => {
+    const embed = buildModLogEmbed({
+      ...entry,
+      fields: [{ name: "Old Reason", value: "x".repeat(2000) }],
+    });
+
+    const value = embed.data.fields![1].value;
+    expect(value).toHaveLength(1024);
+    expect(value.endsWith("…")).toBe(true);
+  });
+
+  it("keeps the whole embed within Discord's limit", () => {
+    const embed = buildModLogEmbed({
+      ...entry,
+      description: `Reason: ${"y".repeat(5000)}`,
+      fields: [
+        { name: "Old Reason", value: "x".repeat(1024) },
+        { name: "New Reason", value: "z".repeat(1024) },
+      ],
+    });
+
+    expect(embed.data.description!.length).toBeLessThanOrEqual(4096);
+    expect(embedLength(embed.data)).toBeLessThanOrEqual(6000);
+  });
+
+  it("leaves short text alone", () => {
+    const embed = buildModLogEmbed({ ...entry, description: "Reason: spam" });
+
+    expect(embed.data.description).toBe("Reason: spam");
+  });
+});
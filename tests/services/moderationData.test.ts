@@ -0,0 +1,123 @@
+import database, { InfractionType } from "../../src/database/database";
+import { importGuildData, mapInfractionType } from "../../src/services/moderationData";
+
+jest.mock("../../src/database/paths", () => ({
+  DATA_DIR: "",
+  DATABASE_PATH: ":memory:",
+  ensureDataDir: () => undefined,
+}));
+
+const GUILD_ID = "100000000000000001";
+const IMPORTER_ID = "200000000000000001";
+const USER_ID = "300000000000000001";
+const MODERATOR_ID = "400000000000000001";
+
+beforeAll(() => {
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+  database.open();
+});
+
+afterAll(() => {
+  database.close();
+  jest.restoreAllMocks();
+});
+
+describe("mapInfractionType", () => {
+  it.each([
+    ["warn", InfractionType.WARN],
+    ["Warning", InfractionType.WARN],
+    ["strike", InfractionType.WARN],
+    ["temp-mute", InfractionType.MUTE],
+    ["KICK", InfractionType.KICK],
+    ["soft_ban", InfractionType.BAN],
+    ["Temp Ban", InfractionType.BAN],
+    ["communication_disabled", InfractionType.TIMEOUT],
+  ])("maps %p to %s", (input, expected) => {
+    expect(mapInfractionType(input)).toBe(expected);
+  });
+
+  it.each([["unban"], ["note"], [""], [3], [null], [undefined]])("rejects %p", (input) => {
+    expect(mapInfractionType(input)).toBeNull();
+  });
+});
+
+describe("importGuildData", () => {
+  const record = {
+    user: { id: USER_ID },
+    moderator: MODERATOR_ID,
+    action: "tempmute",
+    reason: "Spamming",
+    timestamp: 1704067200,
+  };
+
+  it("imports records from another bot's export", () => {
+    const result = importGuildData(GUILD_ID, { cases: [record] }, IMPORTER_ID);
+
+    expect(result).toMatchObject({ imported: 1, duplicates: 0, skipped: [] });
+    const [infraction] = database.getUserInfractions(USER_ID, GUILD_ID);
+    expect(infraction).toMatchObject({
+      type: InfractionType.MUTE,
+      moderatorId: MODERATOR_ID,
+      reason: "Spamming",
+    });
+    expect(infraction.createdAt.toISOString()).toBe("2024-01-01T00:00:00.000Z");
+  });
+
+  it("skips records that are already on file", () => {
+    const result = importGuildData(GUILD_ID, [record], IMPORTER_ID);
+
+    expect(result).toMatchObject({ imported: 0, duplicates: 1 });
+    expect(database.getUserInfractions(USER_ID, GUILD_ID)).toHaveLength(1);
+  });
+
+  it("skips repeats within the same file", () => {
+    const repeated = { ...record, reason: "Repeated", timestamp: 1704153600 };
+
+    const result = importGuildData(GUILD_ID, [repeated, { ...repeated }], IMPORTER_ID);
+
+    expect(result).toMatchObject({ imported: 1, duplicates: 1 });
+  });
+
+  it("reports which list each skipped record came from", () => {
+    const payload = {
+      infractions: ["not a record", { ...record, action: "unban" }, { ...record, user: "nobody" }],
+      notes: [{ userId: USER_ID, content: 42, createdAt: "2024-01-01T00:00:00Z" }],
+    };
+
+    const result = importGuildData(GUILD_ID, payload, IMPORTER_ID);
+
+    expect(result.skipped).toEqual([
+      { kind: "infraction", index: 0, reason: "not an object" },
+      { kind: "infraction", index: 1, reason: 'unknown type "unban"' },
+      { kind: "infraction", index: 2, reason: "missing user ID" },
+      { kind: "note", index: 0, reason: "invalid note" },
+    ]);
+  });
+
+  it("skips IDs stored as numbers, which JSON has already rounded", () => {
+    const payload = JSON.parse(`{
+      "infractions": [
+        { "user": 300000000000000123, "action": "warn", "reason": "Rounded user", "timestamp": 1704240000 },
+        { "user": { "id": 300000000000000123 }, "action": "warn", "reason": "Rounded user", "timestamp": 1704240000 },
+        { "user": "${USER_ID}", "moderator": 400000000000000123, "action": "warn", "reason": "Rounded mod", "timestamp": 1704240000 }
+      ],
+      "notes": [{ "userId": 300000000000000123, "content": "Rounded note", "createdAt": "2024-01-03T00:00:00Z" }]
+    }`);
+
+    const result = importGuildData(GUILD_ID, payload, IMPORTER_ID);
+
+    expect(result).toMatchObject({ imported: 0, duplicates: 0 });
+    expect(result.skipped).toEqual([
+      { kind: "infraction", index: 0, reason: "user ID is a number, not a string" },
+      { kind: "infraction", index: 1, reason: "user ID is a number, not a string" },
+      { kind: "infraction", index: 2, reason: "moderator ID is a number, not a string" },
+      { kind: "note", index: 0, reason: "invalid note" },
+    ]);
+  });
+
+  it("rejects a file without a list of infractions", () => {
+    expect(() => importGuildData(GUILD_ID, { hello: "world" }, IMPORTER_ID)).toThrow(
+      "The file doesn't contain a list of infractions."
+    );
+  });
+});